@@ -0,0 +1,43 @@
+/*
+    Benchmarks the Double Strike generator across piece counts.
+    Usage: bun scripts/benchmark-generator.ts [runs per piece count] [min pieces] [max pieces]
+*/
+import { DoubleStrikeChessGenerator, MAX_PIECE_COUNT, MIN_PIECE_COUNT } from '../src/double-strike/double-strike'
+
+const runs = parseInt(process.argv[2] ?? '20')
+const minPieces = parseInt(process.argv[3] ?? MIN_PIECE_COUNT.toString())
+const maxPieces = parseInt(process.argv[4] ?? MAX_PIECE_COUNT.toString())
+
+console.log(`${runs} runs per piece count\n`)
+console.log('pieces  success   avg ms   max ms')
+
+for (let pieceCount = minPieces; pieceCount <= maxPieces; pieceCount++) {
+    let successes = 0
+    let totalTime = 0
+    let maxTime = 0
+
+    for (let run = 0; run < runs; run++) {
+        // Fixed seeds so results are comparable between generator changes
+        const generator = new DoubleStrikeChessGenerator({ seed: pieceCount * 10_000 + run })
+        const start = performance.now()
+        try {
+            await generator.generate(pieceCount)
+            successes++
+        } catch (err) {
+            // Counted as a failure below
+        }
+        const time = performance.now() - start
+        totalTime += time
+        maxTime = Math.max(maxTime, time)
+    }
+
+    const successRate = `${((successes / runs) * 100).toFixed(0)}%`
+    console.log(
+        [
+            pieceCount.toString().padStart(6),
+            successRate.padStart(8),
+            (totalTime / runs).toFixed(1).padStart(8),
+            maxTime.toFixed(1).padStart(8),
+        ].join(' '),
+    )
+}
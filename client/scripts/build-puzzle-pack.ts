@@ -0,0 +1,164 @@
+/*
+    Generates a Double Strike puzzle pack, grouped by piece count and difficulty band.
+    Every solution is replayed with the solver's move generator and duplicates are left out.
+    Usage: bun scripts/build-puzzle-pack.ts [options], or npm run build-pack -- [options]
+    Runs with Bun, which loads the app's TypeScript modules directly.
+
+    --out <file>        Where to write the pack (default: public/double-strike-pack.json)
+    --per-count <n>     Puzzles per piece count (default: 8)
+    --min <n>           Fewest pieces (default: 3)
+    --max <n>           Most pieces (default: 27, or what fits on the board)
+    --strikes <n>       Strikes per piece, 1, 2, 3 or unlimited (default: 2)
+    --colors <rule>     none, opposite or alternate (default: none)
+    --size <n>          Board size, 5, 6, 8 or 10 (default: 8)
+    --pieces <letters>  Pieces that may be captured, e.g. NP (default: QRBNP)
+    --seed <n>          Seed for the whole pack, the same seed builds the same pack (default: 1)
+    --unique            Only keep puzzles with exactly one solution
+*/
+import { writeFileSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+import {
+    CAPTURABLE_PIECES,
+    MIN_PIECE_COUNT,
+    PuzzleGenerationError,
+    VariantRules,
+    maxPieceCount,
+    parseBoardSize,
+    parseColorRule,
+    parsePieceSet,
+    parseStrikeLimit,
+    pieceSetToParam,
+    setRuleParams,
+    sideToMove,
+} from '../src/double-strike/double-strike'
+import {
+    SolverBoard,
+    boardFromFen,
+    getLegalCaptures,
+    solveDoubleStrike,
+} from '../src/double-strike/double-strike-solver'
+import { generatePuzzle } from '../src/double-strike/generate-puzzle'
+import { formatLongMove } from '../src/double-strike/notation'
+import { PACK_VERSION, PackGroup, PuzzlePack } from '../src/double-strike/puzzle-pack'
+import { DEFAULT_QUALITY_RULES } from '../src/double-strike/quality'
+import { createSeededRandom } from '../src/utils/random'
+
+// Failed or rejected puzzles are retried up to this many times the requested number
+const MAX_ATTEMPTS_FACTOR = 3
+
+// Every move has to be a legal capture and the last one has to leave a single piece
+function isLegalSolution(fen: string, solution: string[], rules: VariantRules): boolean {
+    let board: SolverBoard = boardFromFen(fen)
+    for (const [index, notation] of solution.entries()) {
+        const move = getLegalCaptures(board, rules, sideToMove(index)).find(
+            capture => formatLongMove(capture, board.length) === notation,
+        )
+        if (!move) return false
+        board = board.map(row => [...row])
+        const mover = board[move.from.y][move.from.x]!
+        board[move.to.y][move.to.x] = { ...mover, type: move.piece, moves: mover.moves + 1 }
+        board[move.from.y][move.from.x] = null
+    }
+    return board.flat().filter(cell => cell !== null).length === 1
+}
+
+const { values: options } = parseArgs({
+    options: {
+        out: { type: 'string', default: 'public/double-strike-pack.json' },
+        'per-count': { type: 'string', default: '8' },
+        min: { type: 'string', default: MIN_PIECE_COUNT.toString() },
+        max: { type: 'string' },
+        strikes: { type: 'string', default: '2' },
+        colors: { type: 'string', default: 'none' },
+        size: { type: 'string', default: '8' },
+        pieces: { type: 'string', default: pieceSetToParam(CAPTURABLE_PIECES) },
+        seed: { type: 'string', default: '1' },
+        unique: { type: 'boolean', default: false },
+    },
+})
+
+const strikeLimit = parseStrikeLimit(options.strikes!)
+const colorRule = parseColorRule(options.colors!)
+const boardSize = parseBoardSize(options.size!)
+const allowedPieces = parsePieceSet(options.pieces!)
+if (strikeLimit === null || colorRule === null || boardSize === null || allowedPieces === null) {
+    console.error('Invalid rules, see the usage at the top of scripts/build-puzzle-pack.ts')
+    process.exit(1)
+}
+
+const rules = { strikeLimit, colorRule, boardSize }
+const perCount = parseInt(options['per-count']!)
+const minPieces = parseInt(options.min!)
+const maxPieces = Math.min(parseInt(options.max ?? '99'), maxPieceCount(boardSize))
+const seeds = createSeededRandom(parseInt(options.seed!))
+
+const groups: PackGroup[] = []
+const seenFens = new Set<string>()
+const start = performance.now()
+
+for (let pieceCount = minPieces; pieceCount <= maxPieces; pieceCount++) {
+    let added = 0
+    let rejected = 0
+    for (let attempt = 0; attempt < perCount * MAX_ATTEMPTS_FACTOR && added < perCount; attempt++) {
+        const seed = Math.floor(seeds() * 0x100000000)
+        try {
+            const puzzle = await generatePuzzle({
+                pieceCount,
+                seed,
+                ...rules,
+                allowedPieces,
+                quality: DEFAULT_QUALITY_RULES,
+            })
+
+            // The generator's solution is trusted in the app, so check it once more before shipping it.
+            // Large positions are too much for the solver, so it's only asked about other solutions.
+            const isUnique = () => {
+                const result = solveDoubleStrike(boardFromFen(puzzle.fen), { maxSolutions: 2, rules: puzzle.rules })
+                return result.complete && result.solutionCount === 1
+            }
+            if (
+                !puzzle.difficulty ||
+                seenFens.has(puzzle.fen) ||
+                !isLegalSolution(puzzle.fen, puzzle.solution, puzzle.rules) ||
+                (options.unique && !isUnique())
+            ) {
+                rejected++
+                continue
+            }
+
+            seenFens.add(puzzle.fen)
+            const { band } = puzzle.difficulty
+            let group = groups.find(group => group.pieceCount === pieceCount && group.band === band)
+            if (!group) {
+                group = { pieceCount, band, puzzles: [] }
+                groups.push(group)
+            }
+            group.puzzles.push({
+                code: puzzle.code,
+                fen: puzzle.fen,
+                solution: puzzle.solution,
+                difficulty: puzzle.difficulty,
+            })
+            added++
+        } catch (err) {
+            // Only running out of attempts counts as a rejection, anything else is a bug to look at
+            if (!(err instanceof PuzzleGenerationError)) throw err
+            rejected++
+        }
+    }
+    console.log(`${pieceCount.toString().padStart(2)} pieces: ${added} puzzles, ${rejected} rejected`)
+}
+
+const ruleParams = new URLSearchParams()
+setRuleParams(ruleParams, rules)
+const pack: PuzzlePack = {
+    version: PACK_VERSION,
+    rules: ruleParams.toString(),
+    pieces: pieceSetToParam(allowedPieces),
+    quality: DEFAULT_QUALITY_RULES,
+    groups,
+}
+writeFileSync(options.out!, JSON.stringify(pack))
+
+const total = groups.reduce((sum, group) => sum + group.puzzles.length, 0)
+console.log(`\n${total} puzzles written to ${options.out} in ${((performance.now() - start) / 1000).toFixed(1)}s`)
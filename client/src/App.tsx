@@ -1,10 +1,16 @@
 import { createTheme, MantineProvider, rem, Button, Stack, Title, Container } from '@mantine/core'
 import { Notifications } from '@mantine/notifications'
 import { DoubleStrikeChess } from './double-strike/double-strike-chess'
+import { DoubleStrikeRush } from './double-strike/double-strike-rush'
+import { DoubleStrikeSurvival } from './double-strike/double-strike-survival'
+import { DoubleStrikeEditor } from './double-strike/double-strike-editor'
+import { DoubleStrikeDaily } from './double-strike/double-strike-daily'
+import { DoubleStrikeRace } from './double-strike/double-strike-race'
 import { ChecklistChess } from './checklist/checklist-chess'
 import { UndefendedChess } from './undefended/undefended-chess'
 import { BrowserRouter, Routes, Route, Link } from 'react-router-dom'
 import { SlideMenu } from './components/slide-menu'
+import { PuzzleSourceProvider } from './puzzle-sources/puzzle-source-context'
 
 const theme = createTheme({
     fontSizes: {
@@ -42,12 +48,19 @@ export function App() {
         <MantineProvider theme={theme} defaultColorScheme="dark">
             <BrowserRouter>
                 <SlideMenu />
-                <Routes>
-                    <Route path="/" element={<HomePage />} />
-                    <Route path="/double-strike" element={<DoubleStrikeChess />} />
-                    <Route path="/checklist" element={<ChecklistChess />} />
-                    <Route path="/undefended" element={<UndefendedChess />} />
-                </Routes>
+                <PuzzleSourceProvider>
+                    <Routes>
+                        <Route path="/" element={<HomePage />} />
+                        <Route path="/double-strike" element={<DoubleStrikeChess />} />
+                        <Route path="/double-strike/rush" element={<DoubleStrikeRush />} />
+                        <Route path="/double-strike/survival" element={<DoubleStrikeSurvival />} />
+                        <Route path="/double-strike/editor" element={<DoubleStrikeEditor />} />
+                        <Route path="/double-strike/daily" element={<DoubleStrikeDaily />} />
+                        <Route path="/double-strike/race" element={<DoubleStrikeRace />} />
+                        <Route path="/checklist" element={<ChecklistChess />} />
+                        <Route path="/undefended" element={<UndefendedChess />} />
+                    </Routes>
+                </PuzzleSourceProvider>
                 <Notifications limit={1} position="top-center" />
             </BrowserRouter>
         </MantineProvider>
@@ -25,6 +25,8 @@ import { BlackKing } from '../components/BlackKing'
 import { useMediaQuery, useDocumentTitle } from '@mantine/hooks'
 import classes from './checklist-chess.module.css'
 import { plausibleEvent } from '../plausible'
+import { usePuzzleSource } from '../puzzle-sources/puzzle-source-context'
+import { PuzzleSourceSelect } from '../puzzle-sources/puzzle-source-select'
 import { createSound, playSound } from '../utils/sound'
 
 type Phase = 'checks' | 'captures'
@@ -56,28 +58,11 @@ const successSound = createSound('/success.mp3')
 const failSound = createSound('/fail.wav')
 const winSound = createSound('/win.wav')
 
-const DIFFICULTIES = ['easier', 'normal', 'harder', 'hardest'] as const
-type Difficulty = (typeof DIFFICULTIES)[number]
-
-const getRandomDifficulty = (): Difficulty => {
-    const randomIndex = Math.floor(Math.random() * DIFFICULTIES.length)
-    return DIFFICULTIES[randomIndex]
-}
-
-const loadPuzzleById = async (puzzleId: string) => {
-    const response = await fetch(`https://lichess.org/api/puzzle/${puzzleId}`)
-    if (!response.ok) {
-        plausibleEvent('checklist:puzzle-load-failed')
-        throw new Error('Failed to load puzzle')
-    }
-    const data = await response.json()
-    return data
-}
-
 export function ChecklistChess() {
     useDocumentTitle('Checklist | ChessPrac')
     const navigate = useNavigate()
     const location = useLocation()
+    const { source, puzzleParams, loadPuzzle: loadSourcePuzzle } = usePuzzleSource()
     const [gameState, setGameState] = useState<GameState>({
         fen: '',
         phase: 'checks',
@@ -134,29 +119,14 @@ export function ChecklistChess() {
     const generateNewPuzzle = async (isInitial: boolean = false) => {
         setIsLoading(true)
         try {
-            const difficulty = getRandomDifficulty()
-            const response = await fetch(`https://lichess.org/api/puzzle/next?difficulty=${difficulty}`)
-            const data = await response.json()
-
-            const chess = new Chess()
-            const moves = data.game.pgn.split(' ')
-            moves.forEach((move: string) => {
-                if (move.match(/^\d+\./) || move === '') return
-                try {
-                    chess.move(move)
-                } catch (e) {
-                    console.error('Invalid move:', move)
-                }
-            })
-
-            const fen = chess.fen()
-            const playerColor = chess.turn()
+            const puzzle = await source.next()
+            const fen = puzzle.fen
+            const playerColor = new Chess(fen).turn()
             const { checks, captures } = calculateMoves(fen)
 
             // Push new state to history only if not initial load or no puzzle ID
             if (!isInitial || !location.search) {
-                const searchParams = new URLSearchParams()
-                searchParams.set('puzzle', data.puzzle.id)
+                const searchParams = puzzleParams(puzzle.id)
                 navigate(`?${searchParams.toString()}`, { replace: isInitial })
             }
 
@@ -170,8 +140,8 @@ export function ChecklistChess() {
                 remainingCaptures: captures,
                 foundMoves: [],
                 playerColor,
-                puzzleId: data.puzzle.id,
-                rating: data.puzzle.rating,
+                puzzleId: puzzle.id,
+                rating: puzzle.rating,
                 isLoaded: true,
             })
 
@@ -204,20 +174,9 @@ export function ChecklistChess() {
                 setSelectedSquare(null)
                 setSquareStyles({})
 
-                const data = await loadPuzzleById(id)
-                const chess = new Chess()
-                const moves = data.game.pgn.split(' ')
-                moves.forEach((move: string) => {
-                    if (move.match(/^\d+\./) || move === '') return
-                    try {
-                        chess.move(move)
-                    } catch (e) {
-                        console.error('Invalid move:', move)
-                    }
-                })
-
-                const fen = chess.fen()
-                const playerColor = chess.turn()
+                const puzzle = await loadSourcePuzzle(id, params.get('source'))
+                const fen = puzzle.fen
+                const playerColor = new Chess(fen).turn()
                 const { checks, captures } = calculateMoves(fen)
 
                 setGameState({
@@ -227,13 +186,14 @@ export function ChecklistChess() {
                     remainingCaptures: captures,
                     foundMoves: [],
                     playerColor,
-                    puzzleId: data.puzzle.id,
-                    rating: data.puzzle.rating,
+                    puzzleId: puzzle.id,
+                    rating: puzzle.rating,
                     isLoaded: true,
                 })
                 // Start timer after puzzle is loaded
                 setIsActive(true)
             } catch (error) {
+                plausibleEvent('checklist:puzzle-load-failed')
                 notifications.show({
                     message: 'Failed to load puzzle. Please try again.',
                     color: 'red',
@@ -557,7 +517,9 @@ export function ChecklistChess() {
                             </Tooltip>
                         </Group>
                     </Grid.Col>
-                    <Grid.Col span={4} display={{ base: 'none', md: 'block' }} />
+                    <Grid.Col span={{ base: 12, md: 4 }}>
+                        <PuzzleSourceSelect />
+                    </Grid.Col>
                 </Grid>
 
                 <Grid justify="center">
@@ -0,0 +1,170 @@
+import { useElementSize } from '@mantine/hooks'
+import { Piece, PromotionPieceOption, Square } from 'react-chessboard/dist/chessboard/types'
+import classes from './grid-chessboard.module.css'
+import { PiecePips, PiecePipsBySquare } from './piece-pips'
+
+interface CustomSquareStyles {
+    [square: string]: React.CSSProperties
+}
+
+interface GridChessboardProps {
+    position: string // FEN string
+    boardSize: number
+    onSquareClick: (square: Square) => void
+    onPieceDrop: (source: Square, target: Square, piece: Piece) => boolean
+    onPromotionPieceSelect: (piece: PromotionPieceOption | undefined, source?: Square, target?: Square) => boolean
+    isDraggablePiece?: (props: { piece: Piece; sourceSquare: Square }) => boolean
+    customSquareStyles?: CustomSquareStyles
+    showPromotionDialog: boolean
+    promotionToSquare: Square | null
+    boardOrientation?: 'white' | 'black'
+    piecePips?: PiecePipsBySquare
+    fadedPieces?: string[]
+}
+
+const LIGHT_SQUARE = '#f0d9b5'
+const DARK_SQUARE = '#b58863'
+const PROMOTION_PIECES = ['Q', 'R', 'B', 'N']
+
+// Solid glyphs for both colors, the text variation selector keeps the pawn from showing as an emoji
+const PIECE_GLYPHS: Record<string, string> = {
+    K: '♚',
+    Q: '♛',
+    R: '♜',
+    B: '♝',
+    N: '♞',
+    P: '♟︎',
+}
+
+function parsePlacement(position: string): (Piece | null)[][] {
+    return position
+        .split(' ')[0]
+        .split('/')
+        .map(row =>
+            (row.match(/\d+|\D/g) ?? []).flatMap(token =>
+                /\d/.test(token)
+                    ? Array(parseInt(token)).fill(null)
+                    : [`${token === token.toUpperCase() ? 'w' : 'b'}${token.toUpperCase()}` as Piece],
+            ),
+        )
+}
+
+function PieceGlyph({ piece, size }: { piece: Piece; size: number }) {
+    return (
+        <span className={piece[0] === 'w' ? classes.whitePiece : classes.blackPiece} style={{ fontSize: size * 0.8 }}>
+            {PIECE_GLYPHS[piece[1]]}
+        </span>
+    )
+}
+
+/*
+    Board for sizes react-chessboard can't draw, with the subset of its props that MyChessboard uses.
+    Pieces are moved by clicking or by dragging. react-chessboard's Square type only covers a-h and 1-8,
+    so squares like j10 on larger boards are passed around as if they were one.
+*/
+export function GridChessboard({
+    position,
+    boardSize,
+    onSquareClick,
+    onPieceDrop,
+    onPromotionPieceSelect,
+    isDraggablePiece,
+    customSquareStyles,
+    showPromotionDialog,
+    promotionToSquare,
+    boardOrientation = 'white',
+    piecePips,
+    fadedPieces,
+}: GridChessboardProps) {
+    const { ref, width } = useElementSize()
+    const squareSize = width / boardSize
+    const board = parsePlacement(position)
+    const flipped = boardOrientation === 'black'
+    const indices = Array.from({ length: boardSize }, (_, i) => (flipped ? boardSize - 1 - i : i))
+
+    const squareName = (x: number, y: number) => `${String.fromCharCode(97 + x)}${boardSize - y}` as Square
+
+    // Promotions on the top rank are white's, like in react-chessboard
+    const promotionColor = promotionToSquare && parseInt(promotionToSquare.slice(1)) === boardSize ? 'w' : 'b'
+
+    return (
+        <div ref={ref} className={classes.board} style={{ gridTemplateColumns: `repeat(${boardSize}, 1fr)` }}>
+            {indices.map((y, row) =>
+                indices.map((x, column) => {
+                    const square = squareName(x, y)
+                    const piece = board[y]?.[x] ?? null
+                    const canDrag =
+                        piece !== null && (!isDraggablePiece || isDraggablePiece({ piece, sourceSquare: square }))
+                    return (
+                        <div
+                            key={square}
+                            className={classes.square}
+                            style={{
+                                backgroundColor: (x + y) % 2 === 0 ? LIGHT_SQUARE : DARK_SQUARE,
+                                ...customSquareStyles?.[square],
+                            }}
+                            onClick={() => onSquareClick(square)}
+                            onDragOver={event => event.preventDefault()}
+                            onDrop={event => {
+                                event.preventDefault()
+                                const [source, dragged] = event.dataTransfer.getData('text/plain').split(' ')
+                                if (source && dragged && source !== square) {
+                                    onPieceDrop(source as Square, square, dragged as Piece)
+                                }
+                            }}
+                        >
+                            {piece && (
+                                <div
+                                    className={
+                                        fadedPieces?.includes(square)
+                                            ? `${classes.piece} ${classes.fadedPiece}`
+                                            : classes.piece
+                                    }
+                                    draggable={canDrag}
+                                    onDragStart={event =>
+                                        event.dataTransfer.setData('text/plain', `${square} ${piece}`)
+                                    }
+                                >
+                                    <PieceGlyph piece={piece} size={squareSize} />
+                                </div>
+                            )}
+                            {piece && piecePips?.[square] && <PiecePips {...piecePips[square]} />}
+                            {column === 0 && (
+                                <span className={classes.rankLabel} style={{ fontSize: squareSize * 0.2 }}>
+                                    {boardSize - y}
+                                </span>
+                            )}
+                            {row === boardSize - 1 && (
+                                <span className={classes.fileLabel} style={{ fontSize: squareSize * 0.2 }}>
+                                    {String.fromCharCode(97 + x)}
+                                </span>
+                            )}
+                        </div>
+                    )
+                }),
+            )}
+            {showPromotionDialog && promotionToSquare && (
+                <div className={classes.promotionBackdrop} onClick={() => onPromotionPieceSelect(undefined)}>
+                    <div className={classes.promotionDialog}>
+                        {PROMOTION_PIECES.map(type => {
+                            const option = `${promotionColor}${type}` as PromotionPieceOption
+                            return (
+                                <div
+                                    key={type}
+                                    className={classes.promotionOption}
+                                    style={{ width: squareSize, height: squareSize }}
+                                    onClick={event => {
+                                        event.stopPropagation()
+                                        onPromotionPieceSelect(option)
+                                    }}
+                                >
+                                    <PieceGlyph piece={option as Piece} size={squareSize} />
+                                </div>
+                            )
+                        })}
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
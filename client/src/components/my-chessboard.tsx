@@ -1,7 +1,15 @@
 import { useState, useEffect } from 'react'
 import { Chessboard } from 'react-chessboard'
-import { Square, Piece, PromotionPieceOption, PromotionStyle } from 'react-chessboard/dist/chessboard/types'
+import {
+    Square,
+    Piece,
+    PromotionPieceOption,
+    PromotionStyle,
+    DropOffBoardAction,
+} from 'react-chessboard/dist/chessboard/types'
 import classes from './my-chessboard.module.css'
+import { GridChessboard } from './grid-chessboard'
+import { FadedPiecesContext, PiecePipsBySquare, PiecePipsContext, PipSquare } from './piece-pips'
 
 interface CustomSquareStyles {
     [square: string]: {
@@ -23,33 +31,39 @@ interface MyChessboardProps {
     boardOrientation?: 'white' | 'black'
     animationDuration?: number
     onSquareClick?: (square: Square) => void
-    customSquareStyles?: {
-        [square: string]: {
-            backgroundColor?: string
-            background?: string
-            borderRadius?: string
-        }
-    }
+    customSquareStyles?: CustomSquareStyles
+    // For editing positions with spare pieces, the id must match the spare pieces' dndId
+    id?: string
+    onSparePieceDrop?: (piece: Piece, targetSquare: Square) => boolean
+    onPieceDropOffBoard?: (sourceSquare: Square, piece: Piece) => void
+    dropOffBoardAction?: DropOffBoardAction
+    // Boards other than 8x8 are drawn without react-chessboard and don't support spare pieces
+    boardSize?: number
+    // Dots drawn on the pieces of these squares
+    piecePips?: PiecePipsBySquare
+    // Pieces on these squares are drawn faded, the squares keep their color
+    fadedPieces?: string[]
 }
 
 function getPieceAtSquare(position: string, square: Square): Piece | undefined {
     const fenBoard = position.split(' ')[0] // Get board part of FEN
     const ranks = fenBoard.split('/')
     const file = square.charCodeAt(0) - 97 // 'a' -> 0, 'b' -> 1, etc.
-    const rank = 8 - parseInt(square[1]) // '1' -> 7, '2' -> 6, etc.
+    const rank = ranks.length - parseInt(square.slice(1)) // '1' -> 7, '2' -> 6, etc. on 8x8
+    if (!ranks[rank]) return undefined
 
+    // Empty squares can be counted with two digits on boards larger than 8x8
     let fileIndex = 0
-    for (let i = 0; i < ranks[rank].length; i++) {
-        const char = ranks[rank][i]
-        if (isNaN(parseInt(char))) {
+    for (const token of ranks[rank].match(/\d+|\D/g) ?? []) {
+        if (isNaN(parseInt(token))) {
             if (fileIndex === file) {
                 // Convert FEN piece char to Piece format
-                const color = char === char.toUpperCase() ? 'w' : 'b'
-                return `${color}${char.toUpperCase()}` as Piece
+                const color = token === token.toUpperCase() ? 'w' : 'b'
+                return `${color}${token.toUpperCase()}` as Piece
             }
             fileIndex++
         } else {
-            fileIndex += parseInt(char)
+            fileIndex += parseInt(token)
         }
     }
     return undefined
@@ -67,6 +81,13 @@ export function MyChessboard({
     animationDuration = 0,
     onSquareClick: externalOnSquareClick,
     customSquareStyles,
+    id,
+    onSparePieceDrop,
+    onPieceDropOffBoard,
+    dropOffBoardAction,
+    boardSize = 8,
+    piecePips,
+    fadedPieces,
 }: MyChessboardProps) {
     const [moveFrom, setMoveFrom] = useState<Square | null>(null)
     const [moveTo, setMoveTo] = useState<Square | null>(null)
@@ -191,21 +212,51 @@ export function MyChessboard({
         setOptionSquares(newSquares)
     }
 
+    if (boardSize !== 8) {
+        return (
+            <div className={classes.chessboardWrapper}>
+                <GridChessboard
+                    position={position}
+                    boardSize={boardSize}
+                    onSquareClick={externalOnSquareClick || handleInternalSquareClick}
+                    onPieceDrop={onPieceDropHandler}
+                    onPromotionPieceSelect={onPromotionPieceSelectHandler}
+                    isDraggablePiece={isDraggablePiece}
+                    customSquareStyles={{ ...customSquareStyles, ...optionSquares }}
+                    showPromotionDialog={showPromotionDialog}
+                    promotionToSquare={moveTo}
+                    boardOrientation={boardOrientation}
+                    piecePips={piecePips}
+                    fadedPieces={fadedPieces}
+                />
+            </div>
+        )
+    }
+
     return (
         <div className={classes.chessboardWrapper}>
-            <Chessboard
-                position={position}
-                onSquareClick={externalOnSquareClick || handleInternalSquareClick}
-                onPieceDrop={onPieceDropHandler}
-                onPromotionPieceSelect={onPromotionPieceSelectHandler}
-                isDraggablePiece={isDraggablePiece}
-                customSquareStyles={customSquareStyles || optionSquares}
-                showPromotionDialog={showPromotionDialog}
-                promotionToSquare={moveTo}
-                promotionDialogVariant={promotionDialogVariant}
-                boardOrientation={boardOrientation}
-                animationDuration={animationDuration}
-            />
+            <PiecePipsContext.Provider value={piecePips ?? {}}>
+                <FadedPiecesContext.Provider value={fadedPieces ?? []}>
+                    <Chessboard
+                        id={id}
+                        position={position}
+                        onSquareClick={externalOnSquareClick || handleInternalSquareClick}
+                        onPieceDrop={onPieceDropHandler}
+                        onPromotionPieceSelect={onPromotionPieceSelectHandler}
+                        isDraggablePiece={isDraggablePiece}
+                        customSquareStyles={{ ...customSquareStyles, ...optionSquares }}
+                        showPromotionDialog={showPromotionDialog}
+                        promotionToSquare={moveTo}
+                        promotionDialogVariant={promotionDialogVariant}
+                        boardOrientation={boardOrientation}
+                        animationDuration={animationDuration}
+                        onSparePieceDrop={onSparePieceDrop}
+                        onPieceDropOffBoard={onPieceDropOffBoard}
+                        dropOffBoardAction={dropOffBoardAction}
+                        customSquare={piecePips || fadedPieces ? PipSquare : undefined}
+                    />
+                </FadedPiecesContext.Provider>
+            </PiecePipsContext.Provider>
         </div>
     )
 }
@@ -0,0 +1,47 @@
+import { createContext, forwardRef, useContext } from 'react'
+import { CustomSquareProps, CustomSquareRenderer } from 'react-chessboard/dist/chessboard/types'
+import classes from './piece-pips.module.css'
+
+// A row of dots on a piece, e.g. the moves it has left out of all it may make
+export type PipCount = {
+    filled: number
+    total: number
+}
+
+export type PiecePipsBySquare = Record<string, PipCount>
+
+export function PiecePips({ filled, total }: PipCount) {
+    return (
+        <div className={classes.pips}>
+            {Array.from({ length: total }, (_, i) => (
+                <span key={i} className={i < filled ? classes.filledPip : classes.emptyPip} />
+            ))}
+        </div>
+    )
+}
+
+/*
+    react-chessboard needs one square component for the lifetime of the board, so the pips for the
+    current position are passed to it through context instead of props.
+*/
+export const PiecePipsContext = createContext<PiecePipsBySquare>({})
+
+// Squares whose pieces are drawn faded, passed to the square component like the pips
+export const FadedPiecesContext = createContext<string[]>([])
+
+// Only the piece is faded, the square keeps its color. react-chessboard renders it as the square's
+// direct child with a data-piece attribute.
+const PipSquareWithRef = forwardRef<HTMLDivElement, CustomSquareProps>(({ children, square, style }, ref) => {
+    const pips = useContext(PiecePipsContext)[square]
+    const isFaded = useContext(FadedPiecesContext).includes(square)
+    return (
+        <div ref={ref} className={isFaded ? classes.fadedPiece : undefined} style={{ ...style, position: 'relative' }}>
+            {children}
+            {pips && <PiecePips {...pips} />}
+        </div>
+    )
+})
+PipSquareWithRef.displayName = 'PipSquare'
+
+// react-chessboard types the square as a plain function component although it passes a ref
+export const PipSquare = PipSquareWithRef as CustomSquareRenderer
@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react'
+import { ActionIcon, Box, Button, Group, SimpleGrid, Text } from '@mantine/core'
+import { IconChevronLeft, IconChevronRight } from '@tabler/icons-react'
+import { DailyHistory, DailyResult, dateKey, keyToDate } from './daily-puzzle'
+
+const WEEKDAY_LABELS = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su']
+
+function dayButtonProps(result: DailyResult | undefined, isSelected: boolean) {
+    if (result?.solved) return { variant: 'filled', color: 'green', title: 'Solved' }
+    if (result) return { variant: 'light', color: 'red', title: 'Solution revealed' }
+    return { variant: isSelected ? 'outline' : 'subtle', color: isSelected ? 'blue' : 'gray', title: undefined }
+}
+
+/*
+    Month view of the daily history. Solved days are green, days where the solution was revealed red.
+    Past days can be opened to play their puzzle again, future days are disabled.
+*/
+export function DailyCalendar({
+    history,
+    today,
+    selected,
+    onSelect,
+}: {
+    history: DailyHistory
+    today: string
+    selected: string
+    onSelect: (key: string) => void
+}) {
+    // First day of the month on display
+    const [month, setMonth] = useState(() => keyToDate(selected.slice(0, 7) + '-01'))
+
+    useEffect(() => {
+        setMonth(keyToDate(selected.slice(0, 7) + '-01'))
+    }, [selected])
+
+    const leadingDays = (month.getDay() + 6) % 7
+    const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate()
+    const isCurrentMonth = dateKey(month) === today.slice(0, 7) + '-01'
+    const days = Array.from({ length: daysInMonth }, (_, i) =>
+        dateKey(new Date(month.getFullYear(), month.getMonth(), i + 1)),
+    )
+
+    return (
+        <Box>
+            <Group justify="space-between" mb={4}>
+                <ActionIcon
+                    variant="subtle"
+                    onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() - 1, 1))}
+                    title="Previous month"
+                >
+                    <IconChevronLeft size={20} />
+                </ActionIcon>
+                <Text>{month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}</Text>
+                <ActionIcon
+                    variant="subtle"
+                    onClick={() => setMonth(new Date(month.getFullYear(), month.getMonth() + 1, 1))}
+                    disabled={isCurrentMonth}
+                    title="Next month"
+                >
+                    <IconChevronRight size={20} />
+                </ActionIcon>
+            </Group>
+            <SimpleGrid cols={7} spacing={4} verticalSpacing={4}>
+                {WEEKDAY_LABELS.map(label => (
+                    <Text key={label} size="xs" c="dimmed" ta="center">
+                        {label}
+                    </Text>
+                ))}
+                {Array.from({ length: leadingDays }, (_, i) => (
+                    <Box key={`empty-${i}`} />
+                ))}
+                {days.map(key => (
+                    <Button
+                        key={key}
+                        size="compact-sm"
+                        px={0}
+                        {...dayButtonProps(history[key], key === selected)}
+                        onClick={() => onSelect(key)}
+                        disabled={key > today}
+                        fw={key === today ? 700 : undefined}
+                    >
+                        {keyToDate(key).getDate()}
+                    </Button>
+                ))}
+            </SimpleGrid>
+        </Box>
+    )
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { addDays, bestDailyStreak, dailyPuzzleRequest, dailySeed, dailyStreak, parseDateKey } from './daily-puzzle'
+
+describe('daily puzzles', () => {
+    // Changing these changes every daily puzzle, past ones included
+    it('keeps the seed of each date', () => {
+        expect(dailySeed('2024-01-01')).toBe(1395918025)
+        expect(dailySeed('2025-06-15')).toBe(3452251856)
+    })
+
+    it('grows the puzzle over the week', () => {
+        // A Monday and a Sunday
+        expect(dailyPuzzleRequest('2024-01-01')).toMatchObject({ pieceCount: 5, seed: 1395918025 })
+        expect(dailyPuzzleRequest('2025-06-15').pieceCount).toBe(17)
+    })
+
+    it('only accepts real dates', () => {
+        expect(parseDateKey('2024-02-29')).toBe('2024-02-29')
+        expect(parseDateKey('2023-02-29')).toBeNull()
+        expect(parseDateKey('2024-2-1')).toBeNull()
+        expect(addDays('2024-12-31', 1)).toBe('2025-01-01')
+    })
+
+    it('counts streaks of solved days', () => {
+        const history = {
+            '2024-01-01': { solved: true, seconds: 60 },
+            '2024-01-02': { solved: true, seconds: null },
+            '2024-01-04': { solved: true, seconds: 30 },
+            '2024-01-05': { solved: true, seconds: 30 },
+            '2024-01-06': { solved: true, seconds: 30 },
+        }
+        // An unsolved today doesn't break the streak yet
+        expect(dailyStreak(history, '2024-01-07')).toBe(3)
+        expect(dailyStreak(history, '2024-01-08')).toBe(0)
+        expect(bestDailyStreak(history)).toBe(3)
+    })
+})
@@ -0,0 +1,126 @@
+import { PuzzleRequest } from './generate-puzzle'
+import { QualityRules } from './quality'
+
+/*
+    The daily puzzle is generated from the calendar date alone, so everyone gets the same puzzle on the
+    same day without a server. Changing the piece counts, the quality rules or the generator changes
+    every daily puzzle, past ones included.
+*/
+
+export type DailyResult = {
+    solved: boolean
+    // Time to solve, null when the solution was revealed
+    seconds: number | null
+}
+
+// Results by date key, only the puzzle of the day itself is recorded
+export type DailyHistory = Record<string, DailyResult>
+
+const HISTORY_KEY = 'doubleStrikeDailyHistory'
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Monday to Sunday, the week starts small and ends with the largest puzzle
+const WEEKDAY_PIECE_COUNTS = [5, 7, 9, 11, 13, 15, 17]
+export const WEEKDAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']
+
+// Kept apart from the default quality rules so those can change without changing daily puzzles
+const DAILY_QUALITY_RULES: QualityRules = {
+    minDeadEnds: 1,
+    requireSecondStrike: false,
+    requirePromotion: false,
+}
+
+// The local calendar date as YYYY-MM-DD
+export function dateKey(date: Date): string {
+    const month = (date.getMonth() + 1).toString().padStart(2, '0')
+    const day = date.getDate().toString().padStart(2, '0')
+    return `${date.getFullYear()}-${month}-${day}`
+}
+
+export function parseDateKey(value: string | null): string | null {
+    if (!value || !DATE_KEY_PATTERN.test(value)) return null
+    const [year, month, day] = value.split('-').map(Number)
+    const date = new Date(year, month - 1, day)
+    // Rejects dates like 2024-02-31 that roll over into the next month
+    return dateKey(date) === value ? value : null
+}
+
+export function keyToDate(key: string): Date {
+    const [year, month, day] = key.split('-').map(Number)
+    return new Date(year, month - 1, day)
+}
+
+export function addDays(key: string, days: number): string {
+    const date = keyToDate(key)
+    date.setDate(date.getDate() + days)
+    return dateKey(date)
+}
+
+// 0 for Monday up to 6 for Sunday
+export function weekdayIndex(key: string): number {
+    return (keyToDate(key).getDay() + 6) % 7
+}
+
+// FNV-1a hash of the date key
+export function dailySeed(key: string): number {
+    let hash = 0x811c9dc5
+    for (let i = 0; i < key.length; i++) {
+        hash ^= key.charCodeAt(i)
+        hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+}
+
+export function dailyPuzzleRequest(key: string): PuzzleRequest {
+    return {
+        pieceCount: WEEKDAY_PIECE_COUNTS[weekdayIndex(key)],
+        seed: dailySeed(key),
+        quality: DAILY_QUALITY_RULES,
+    }
+}
+
+export function loadDailyHistory(): DailyHistory {
+    const stored = localStorage.getItem(HISTORY_KEY)
+    if (stored) {
+        try {
+            const parsed = JSON.parse(stored)
+            const history: DailyHistory = {}
+            for (const [key, result] of Object.entries(parsed ?? {})) {
+                const { solved, seconds } = (result ?? {}) as Record<string, unknown>
+                if (!parseDateKey(key) || typeof solved !== 'boolean') continue
+                history[key] = { solved, seconds: typeof seconds === 'number' ? seconds : null }
+            }
+            return history
+        } catch (e) {
+            console.error('Failed to parse stored daily history')
+        }
+    }
+    return {}
+}
+
+export function saveDailyHistory(history: DailyHistory) {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history))
+}
+
+// Days solved in a row up to today, an unsolved today doesn't break the streak yet
+export function dailyStreak(history: DailyHistory, today: string): number {
+    let day = history[today]?.solved ? today : addDays(today, -1)
+    let streak = 0
+    while (history[day]?.solved) {
+        streak++
+        day = addDays(day, -1)
+    }
+    return streak
+}
+
+export function bestDailyStreak(history: DailyHistory): number {
+    let best = 0
+    for (const key of Object.keys(history)) {
+        // Only count each streak from its first day
+        if (!history[key].solved || history[addDays(key, -1)]?.solved) continue
+        let streak = 0
+        for (let day = key; history[day]?.solved; day = addDays(day, 1)) streak++
+        best = Math.max(best, streak)
+    }
+    return best
+}
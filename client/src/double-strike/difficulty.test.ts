@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { DifficultyFactors, difficultyBand, offsetFromBand, rateDoubleStrike, ratingFromFactors } from './difficulty'
+
+const factors = (overrides: Partial<DifficultyFactors>): DifficultyFactors => ({
+    captures: 2,
+    branchingFactor: 1,
+    deadEnds: 0,
+    undecided: 0,
+    alternatives: 0,
+    forcedMoves: 0,
+    promotions: 0,
+    solutionCount: 1,
+    ...overrides,
+})
+
+describe('rateDoubleStrike', () => {
+    it('rates short puzzles as beginner even when every capture is forced', () => {
+        const difficulty = rateDoubleStrike('8/8/8/8/8/1N6/8/2RK4 w - - 0 1', ['Nb3xc1', 'Kd1xc1'])
+        expect(difficulty?.rating).toBe(820)
+        expect(difficulty?.band).toBe('beginner')
+        expect(difficulty?.factors).toMatchObject({ captures: 2, deadEnds: 1, forcedMoves: 2, solutionCount: 1 })
+    })
+
+    it('rates along the given solution', () => {
+        const difficulty = rateDoubleStrike('8/1K6/R7/1N6/P7/8/8/8 w - - 0 1', ['Kb7xa6', 'a4xb5', 'Ka6xb5'])
+        expect(difficulty?.rating).toBe(920)
+        expect(difficulty?.factors).toMatchObject({ branchingFactor: 2, deadEnds: 2, solutionCount: 3 })
+    })
+
+    it('rates longer puzzles with many dead ends higher', () => {
+        const difficulty = rateDoubleStrike('7B/1PR5/8/8/K7/1R1N4/1PQ5/N7 w - - 0 1', [
+            'Qc2xb2',
+            'Bh8xb2',
+            'Nd3xb2',
+            'Na1xb3',
+            'Rc7xb7',
+            'Rb7xb3',
+            'Ka4xb3',
+            'Kb3xb2',
+        ])
+        expect(difficulty?.rating).toBe(1390)
+        expect(difficulty?.band).toBe('intermediate')
+    })
+
+    it('returns null for solutions that do not fit the position', () => {
+        expect(rateDoubleStrike('8/8/8/8/8/1N6/8/2RK4 w - - 0 1', ['Kd1xc1', 'Nb3xc1'])).toBeNull()
+    })
+})
+
+describe('ratingFromFactors', () => {
+    it('counts dead ends and forced moves, not their share of the captures', () => {
+        const short = ratingFromFactors(factors({ captures: 2, deadEnds: 2, alternatives: 2, forcedMoves: 2 }))
+        const long = ratingFromFactors(factors({ captures: 8, deadEnds: 8, alternatives: 16, forcedMoves: 2 }))
+        expect(long).toBeGreaterThan(short)
+    })
+
+    it('rates fewer solutions higher', () => {
+        expect(ratingFromFactors(factors({ solutionCount: 1 }))).toBeGreaterThan(
+            ratingFromFactors(factors({ solutionCount: 100 })),
+        )
+    })
+})
+
+describe('difficultyBand', () => {
+    it('puts band boundaries in the higher band', () => {
+        expect(difficultyBand(0)).toBe('beginner')
+        expect(difficultyBand(1199)).toBe('beginner')
+        expect(difficultyBand(1200)).toBe('intermediate')
+        expect(difficultyBand(1499)).toBe('intermediate')
+        expect(difficultyBand(1500)).toBe('advanced')
+        expect(difficultyBand(1799)).toBe('advanced')
+        expect(difficultyBand(1800)).toBe('expert')
+        expect(difficultyBand(3000)).toBe('expert')
+    })
+
+    it('measures how far a rating is outside a band', () => {
+        expect(offsetFromBand(1100, 'intermediate')).toBe(-100)
+        expect(offsetFromBand(1300, 'intermediate')).toBe(0)
+        expect(offsetFromBand(1500, 'intermediate')).toBe(1)
+        expect(offsetFromBand(2500, 'expert')).toBe(0)
+    })
+})
@@ -0,0 +1,186 @@
+import { DEFAULT_RULES, Move, PieceColor, Position, SimplePiece, VariantRules, oppositeColor } from './double-strike'
+import { SolverBoard, boardFromFen, getLegalCaptures, solveDoubleStrike } from './double-strike-solver'
+import { parseLongMove } from './notation'
+
+/*
+    Puzzles are rated by following a solution and looking at the captures available on the way.
+    Longer solutions, captures that look fine but can't be solved, positions where only one capture
+    works and puzzles with few solutions all make a puzzle harder, counted over the whole solution. Large positions can't be searched
+    exhaustively, so every capture that leaves the solution only gets a small search budget and
+    captures that can't be decided within it are left out.
+*/
+
+export type DifficultyBand = 'beginner' | 'intermediate' | 'advanced' | 'expert'
+
+export const DIFFICULTY_BANDS: { band: DifficultyBand; name: string; min: number; max: number }[] = [
+    { band: 'beginner', name: 'Beginner', min: 0, max: 1200 },
+    { band: 'intermediate', name: 'Intermediate', min: 1200, max: 1500 },
+    { band: 'advanced', name: 'Advanced', min: 1500, max: 1800 },
+    { band: 'expert', name: 'Expert', min: 1800, max: Infinity },
+]
+
+export type DifficultyFactors = {
+    captures: number
+    // Average number of legal captures in the positions of the solution
+    branchingFactor: number
+    // Captures off the solution that were shown to be unsolvable, and ones too large to decide
+    deadEnds: number
+    undecided: number
+    alternatives: number
+    // Positions where every other capture loses
+    forcedMoves: number
+    promotions: number
+    // Capped at MAX_COUNTED_SOLUTIONS, null when there were too many positions to count them
+    solutionCount: number | null
+}
+
+export type Difficulty = {
+    rating: number
+    band: DifficultyBand
+    factors: DifficultyFactors
+}
+
+export type RateWorkerRequest = {
+    fen: string
+    solution: string[]
+    rules: VariantRules
+}
+
+export type RateWorkerMessage = { type: 'done'; result: Difficulty | null } | { type: 'error'; message: string }
+
+const ALTERNATIVE_MAX_STATES = 300
+const MAX_COUNTED_SOLUTIONS = 100
+const COUNT_MAX_STATES = 20_000
+
+type SolutionStep = { from: Position; to: Position; promotion?: SimplePiece }
+
+function afterMove(board: SolverBoard, move: Move): SolverBoard {
+    const next = board.map(row => [...row])
+    const mover = next[move.from.y][move.from.x]!
+    next[move.to.y][move.to.x] = { ...mover, type: move.piece, moves: mover.moves + 1 }
+    next[move.from.y][move.from.x] = null
+    return next
+}
+
+function isStep(move: Move, { from, to, promotion }: SolutionStep): boolean {
+    if (move.from.x !== from.x || move.from.y !== from.y || move.to.x !== to.x || move.to.y !== to.y) return false
+    return move.wasPromotion ? move.piece === promotion : !promotion
+}
+
+// Uses the given solution when it parses, otherwise searches for one
+function solutionSteps(board: SolverBoard, solution: string[] | null, rules: VariantRules): SolutionStep[] | null {
+    const parsed = solution?.map(notation => parseLongMove(notation, board.length))
+    if (parsed && parsed.length > 0 && parsed.every(move => move !== null)) {
+        return parsed.map(({ from, to, promotion }) => ({ from, to, promotion }))
+    }
+    const result = solveDoubleStrike(board, { maxSolutions: 1, rules })
+    return (
+        result.solution?.map(move => ({
+            from: move.from,
+            to: move.to,
+            promotion: move.wasPromotion ? move.piece : undefined,
+        })) ?? null
+    )
+}
+
+export function difficultyBand(rating: number): DifficultyBand {
+    return DIFFICULTY_BANDS.find(({ min, max }) => rating >= min && rating < max)!.band
+}
+
+export function difficultyBandName(band: DifficultyBand): string {
+    return DIFFICULTY_BANDS.find(entry => entry.band === band)!.name
+}
+
+export function parseDifficultyBand(value: unknown): DifficultyBand | null {
+    return DIFFICULTY_BANDS.find(({ band }) => band === value)?.band ?? null
+}
+
+// How far a rating is below (negative) or above (positive) a band, 0 when it falls inside it
+export function offsetFromBand(rating: number, band: DifficultyBand): number {
+    const { min, max } = DIFFICULTY_BANDS.find(entry => entry.band === band)!
+    if (rating < min) return rating - min
+    if (rating >= max) return rating - max + 1
+    return 0
+}
+
+// Every term grows with the number of decisions in the puzzle, so a short puzzle can't be rated
+// above a long one just because its few captures are all forced
+export function ratingFromFactors(factors: DifficultyFactors): number {
+    const { captures, branchingFactor, deadEnds, forcedMoves, promotions, solutionCount } = factors
+    // 1 for a unique solution down to 0 for a hundred or more, unknown counts sit in between
+    const uniqueness = solutionCount === null ? 0.3 : Math.max(0, 1 - Math.log10(solutionCount) / 2)
+
+    const rating =
+        580 +
+        30 * captures +
+        70 * Math.log2(Math.max(1, branchingFactor)) +
+        60 * Math.log2(1 + deadEnds) +
+        30 * forcedMoves +
+        10 * captures * uniqueness +
+        (promotions > 0 ? 100 : 0)
+    return Math.round(rating / 10) * 10
+}
+
+/*
+    Rates a position from its starting FEN. The solution is followed when given, so generated puzzles
+    are rated along their own solution. Returns null when no solution is given or can be found.
+*/
+export function rateDoubleStrike(
+    fen: string,
+    solution: string[] | null,
+    rules: VariantRules = DEFAULT_RULES,
+): Difficulty | null {
+    let board = boardFromFen(fen)
+    const steps = solutionSteps(board, solution, rules)
+    if (!steps) return null
+
+    const counted = solveDoubleStrike(board, {
+        maxSolutions: MAX_COUNTED_SOLUTIONS,
+        maxStates: COUNT_MAX_STATES,
+        rules,
+    })
+    const factors: DifficultyFactors = {
+        captures: steps.length,
+        branchingFactor: 0,
+        deadEnds: 0,
+        undecided: 0,
+        alternatives: 0,
+        forcedMoves: 0,
+        promotions: 0,
+        solutionCount:
+            counted.complete || counted.solutionCount === MAX_COUNTED_SOLUTIONS ? counted.solutionCount : null,
+    }
+
+    let side: PieceColor = 'w'
+    let legalCaptures = 0
+    for (const step of steps) {
+        const captures = getLegalCaptures(board, rules, side)
+        const next = captures.find(move => isStep(move, step))
+        if (!next) return null
+        legalCaptures += captures.length
+
+        let isForced = true
+        for (const move of captures) {
+            if (move === next) continue
+            factors.alternatives++
+            const result = solveDoubleStrike(afterMove(board, move), {
+                maxSolutions: 1,
+                maxStates: ALTERNATIVE_MAX_STATES,
+                rules,
+                sideToMove: oppositeColor(side),
+            })
+            if (!result.complete) factors.undecided++
+            else if (!result.solvable) factors.deadEnds++
+            if (!result.complete || result.solvable) isForced = false
+        }
+
+        if (isForced) factors.forcedMoves++
+        if (next.wasPromotion) factors.promotions++
+        board = afterMove(board, next)
+        side = oppositeColor(side)
+    }
+    factors.branchingFactor = legalCaptures / steps.length
+
+    const rating = ratingFromFactors(factors)
+    return { rating, band: difficultyBand(rating), factors }
+}
@@ -1,10 +1,11 @@
 import { useState, useEffect, useRef } from 'react'
 import {
+    Alert,
+    Badge,
     Button,
     Stack,
     Text,
     Group,
-    Code,
     Box,
     Grid,
     Center,
@@ -15,53 +16,114 @@ import {
     Modal,
     TextInput,
     Tooltip,
+    Menu,
 } from '@mantine/core'
-import { DoubleStrikeChessGenerator, Position, SimplePiece, pieceToSimplePiece } from './double-strike'
-import { Piece, PromotionPieceOption, Square } from 'react-chessboard/dist/chessboard/types'
-import { IconShare, IconSwords, IconInfoCircle } from '@tabler/icons-react'
+import {
+    CAPTURABLE_PIECES,
+    ColorRule,
+    BOARD_SIZES,
+    DEFAULT_BOARD_SIZE,
+    DEFAULT_RULES,
+    DEFAULT_STRIKE_LIMIT,
+    MAX_PIECE_COUNT,
+    MIN_PIECE_COUNT,
+    UNLIMITED_STRIKES,
+    SimplePiece,
+    VariantRules,
+    parseColorRule,
+    parsePieceSet,
+    parseRuleParams,
+    parseStrikeLimit,
+    pieceSetToParam,
+    maxPieceCount,
+    parseBoardSize,
+    positionToAlgebraic,
+    setRuleParams,
+    strikeLimitName,
+    strikeLimitToParam,
+} from './double-strike'
+import { boardFromFen } from './double-strike-solver'
+import { Difficulty, difficultyBandName } from './difficulty'
+import { GameState, emptyBoard, fenToBoard, useDoubleStrikeGame } from './use-double-strike-game'
+import { decodePuzzleCode } from './puzzle-code'
+import { generatePuzzleInWorker, GenerationProgress, isAbortError } from './puzzle-worker'
+import { rateInWorker, solveInWorker } from './solver-worker'
+import { BAND_PIECE_COUNTS, PuzzleRequest } from './generate-puzzle'
+import { loadBundledPack, takePackedPuzzle } from './puzzle-pack'
+import { DoubleStrikeModes } from './double-strike-modes'
+import { SolutionList } from './solution-list'
+import { SolutionReplay } from './solution-replay'
+import { VariantRulesControls } from './variant-rules-controls'
+import {
+    LongMove,
+    PuzzleExport,
+    formatSolution,
+    parseLongMove,
+    puzzleToEpd,
+    puzzleToPgn,
+    upgradeSolution,
+} from './notation'
+import {
+    GenerationSettings,
+    GenerationSettingsPanel,
+    loadGenerationSettings,
+    saveGenerationSettings,
+    settingsFinalPiece,
+} from './generation-settings'
+import {
+    IconShare,
+    IconSwords,
+    IconInfoCircle,
+    IconArrowBackUp,
+    IconArrowForwardUp,
+    IconFileExport,
+    IconPencil,
+} from '@tabler/icons-react'
 import { notifications } from '@mantine/notifications'
 import { useNavigate, useLocation } from 'react-router-dom'
 import { MyChessboard } from '../components/my-chessboard'
-import { useDocumentTitle } from '@mantine/hooks'
+import { useDocumentTitle, useHotkeys } from '@mantine/hooks'
 import { plausibleEvent } from '../plausible'
 import { createSound, playSound } from '../utils/sound'
 
-// Add type for piece with unique ID
-type TrackedPiece = {
-    id: string
-    type: SimplePiece
+// Hints first point at the piece to move, then at its target
+type Hint = {
+    state: GameState
+    move: LongMove
+    level: 1 | 2
 }
 
-// Update GameState type
-type GameState = {
-    board: (TrackedPiece | null)[][]
-    moveCount: Map<string, number> // Track by piece ID
+const STORAGE_KEY = 'doubleStrikeChessPieceCount'
+const RULES_READ_KEY = 'doubleStrikeChessRulesRead'
+const STRIKE_LIMIT_KEY = 'doubleStrikeChessStrikeLimit'
+const COLOR_RULE_KEY = 'doubleStrikeChessColorRule'
+const BOARD_SIZE_KEY = 'doubleStrikeChessBoardSize'
+
+function puzzleSearchParams(code: string, rules: VariantRules, allowedPieces: SimplePiece[]): URLSearchParams {
+    const searchParams = new URLSearchParams()
+    searchParams.set('puzzle', code)
+    setRuleParams(searchParams, rules)
+    if (pieceSetToParam(allowedPieces) !== pieceSetToParam(CAPTURABLE_PIECES)) {
+        searchParams.set('pieces', pieceSetToParam(allowedPieces))
+    }
+    return searchParams
 }
 
-function algebraicToPosition(square: string): Position {
-    const file = square.charCodeAt(0) - 97
-    const rank = 8 - parseInt(square[1])
-    return { x: file, y: rank }
+function strikeRuleText(strikeLimit: number): string {
+    if (strikeLimit === UNLIMITED_STRIKES) return 'Pieces may move any number of times.'
+    return `Pieces may move ${['once', 'two times', 'three times'][strikeLimit - 1]}.`
 }
 
-function positionToFen(board: (TrackedPiece | null)[][], moveCount: Map<string, number>): string {
-    return board
-        .map(row =>
-            row
-                .map(cell => {
-                    if (!cell) return '1'
-                    return cell.type
-                })
-                .join('')
-                .replace(/1+/g, match => match.length.toString()),
-        )
-        .join('/')
+function colorRuleText(colorRule: ColorRule): string | null {
+    if (colorRule === 'opposite') return 'Pieces may only capture pieces of the other color.'
+    if (colorRule === 'alternate') return 'Pieces may only capture the other color, and White and Black take turns.'
+    return null
 }
 
-const MIN_PIECE_COUNT = 3
-const MAX_PIECE_COUNT = 27
-const STORAGE_KEY = 'doubleStrikeChessPieceCount'
-const RULES_READ_KEY = 'doubleStrikeChessRulesRead'
+// Custom positions are played on the board size of their FEN
+function fenBoardSize(fen: string): number {
+    return fen.split(' ')[0].split('/').length
+}
 
 // Add this validation function
 function isValidFen(fen: string): boolean {
@@ -69,22 +131,22 @@ function isValidFen(fen: string): boolean {
     const parts = fen.split(' ')
     if (parts.length !== 6) return false
 
-    // Extract piece placement part
+    // Extract piece placement part, the board has to be square and one of the supported sizes
     const piecePlacement = parts[0]
     const rows = piecePlacement.split('/')
-    if (rows.length !== 8) return false
+    if (!BOARD_SIZES.includes(rows.length)) return false
 
-    // Validate each row
+    // Validate each row, empty squares can take two digits on boards larger than 8x8
     const validPiecePlacement = rows.every(row => {
         let count = 0
-        for (const char of row) {
-            if (isNaN(parseInt(char))) {
+        for (const token of row.match(/\d+|\D/g) ?? []) {
+            if (isNaN(parseInt(token))) {
                 count++
             } else {
-                count += parseInt(char)
+                count += parseInt(token)
             }
         }
-        return count === 8
+        return count === rows.length
     })
 
     // Basic validation of other FEN components
@@ -104,43 +166,58 @@ export function DoubleStrikeChess() {
     useDocumentTitle('Double Strike | ChessPrac')
     const navigate = useNavigate()
     const location = useLocation()
-    const [gameState, setGameState] = useState<GameState>({
-        board: Array(8)
-            .fill(null)
-            .map(() => Array(8).fill(null)),
-        moveCount: new Map(),
-    })
+    // The rules of the puzzle on the board, new puzzles use the rule settings below
+    const [puzzleRules, setPuzzleRules] = useState<VariantRules>(DEFAULT_RULES)
+    const {
+        gameState,
+        history,
+        historyIndex,
+        remainingPieces,
+        positionFen,
+        exhaustedSquares,
+        strikePips,
+        sideToMove,
+        solvability,
+        isDeadEnd,
+        resetGame,
+        goToMove,
+        undoMove,
+        redoMove,
+        undoToLastSolvable,
+        isUndoingToSolvable,
+        solveCurrentPosition,
+        onPieceDrop,
+        onPromotionPieceSelect,
+        onPromotionCheck,
+        isDraggablePiece,
+    } = useDoubleStrikeGame(puzzleRules)
     const [solution, setSolution] = useState<string[]>([])
     const [showSolution, setShowSolution] = useState(false)
-    const remainingPieces = gameState.board.flat().filter(piece => piece !== null).length
+    const [isReplaying, setIsReplaying] = useState(false)
     const [originalFen, setOriginalFen] = useState('')
+    const [difficulty, setDifficulty] = useState<Difficulty | null>(null)
     const [elapsedTime, setElapsedTime] = useState(0)
     const [isGenerating, setIsGenerating] = useState(false)
     const [rulesOpen, setRulesOpen] = useState(false)
-    const captureSound = createSound('/capture.mp3')
     const winSound = createSound('/win.wav')
     const [isActive, setIsActive] = useState(false)
     const [hasReadRules, setHasReadRules] = useState(() => {
         return localStorage.getItem(RULES_READ_KEY) === 'true'
     })
+    const [hint, setHint] = useState<Hint | null>(null)
+    const activeHint = hint?.state === gameState ? hint : null
+    const [hintsUsed, setHintsUsed] = useState(0)
+    const [isFindingHint, setIsFindingHint] = useState(false)
     const lastNotifiedFen = useRef<string>('')
-
-    const positionFen = positionToFen(
-        gameState.board.map(row =>
-            row.map(cell => {
-                if (!cell) return null
-                // If it has moved twice, make it black
-                if ((gameState.moveCount.get(cell.id) || 0) >= 2) {
-                    return {
-                        ...cell,
-                        type: cell.type.toLowerCase() as SimplePiece,
-                    }
-                }
-                return cell
-            }),
-        ),
-        gameState.moveCount,
-    )
+    // Search params of the generated puzzle on the board, so the URL effect doesn't regenerate it
+    const loadedPuzzleParams = useRef<string>('')
+    const generation = useRef<AbortController | null>(null)
+    // The search for the solution of a custom position from the URL
+    const positionSearch = useRef<AbortController | null>(null)
+    const [isSearchingPosition, setIsSearchingPosition] = useState(false)
+    // Rating a custom position, its badge shows up once the rating is done
+    const positionRating = useRef<AbortController | null>(null)
+    const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null)
 
     // Load initial piece count from localStorage or use defaults
     const initialPieceCount = (() => {
@@ -166,12 +243,38 @@ export function DoubleStrikeChess() {
     })()
 
     const [pieceCountRange, setPieceCount] = useState<[number, number]>(initialPieceCount)
+    const [strikeLimit, setStrikeLimit] = useState(
+        () => parseStrikeLimit(localStorage.getItem(STRIKE_LIMIT_KEY)) ?? DEFAULT_STRIKE_LIMIT,
+    )
+    const [colorRule, setColorRule] = useState<ColorRule>(
+        () => parseColorRule(localStorage.getItem(COLOR_RULE_KEY)) ?? DEFAULT_RULES.colorRule,
+    )
+    const [boardSize, setBoardSize] = useState(
+        () => parseBoardSize(localStorage.getItem(BOARD_SIZE_KEY)) ?? DEFAULT_BOARD_SIZE,
+    )
+    const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(loadGenerationSettings)
 
     // Save to localStorage whenever piece count changes
     useEffect(() => {
         localStorage.setItem(STORAGE_KEY, JSON.stringify(pieceCountRange))
     }, [pieceCountRange])
 
+    useEffect(() => {
+        localStorage.setItem(STRIKE_LIMIT_KEY, strikeLimitToParam(strikeLimit))
+    }, [strikeLimit])
+
+    useEffect(() => {
+        localStorage.setItem(COLOR_RULE_KEY, colorRule)
+    }, [colorRule])
+
+    useEffect(() => {
+        localStorage.setItem(BOARD_SIZE_KEY, boardSize.toString())
+    }, [boardSize])
+
+    useEffect(() => {
+        saveGenerationSettings(generationSettings)
+    }, [generationSettings])
+
     // Update timer effect
     useEffect(() => {
         // Start timer when puzzle begins (more than 1 piece and not completed)
@@ -185,6 +288,12 @@ export function DoubleStrikeChess() {
         }
     }, [remainingPieces, isActive])
 
+    // Hints are counted per puzzle, and a replay only belongs to its puzzle
+    useEffect(() => {
+        setHintsUsed(0)
+        setIsReplaying(false)
+    }, [originalFen])
+
     // Separate effect for the timer itself
     useEffect(() => {
         let startTime = Date.now() - elapsedTime * 1000
@@ -205,71 +314,146 @@ export function DoubleStrikeChess() {
         }
     }, [isActive]) // Only depend on isActive state
 
-    const generateNewPuzzle = async (isInitial: boolean = false) => {
+    const startPuzzle = (
+        fen: string,
+        newSolution: string[],
+        newRules: VariantRules,
+        newDifficulty: Difficulty | null,
+    ) => {
+        setElapsedTime(0)
+        setOriginalFen(fen)
+        setSolution(newSolution)
+        setDifficulty(newDifficulty)
+        setShowSolution(false)
+        setPuzzleRules(newRules)
+
+        resetGame(fenToBoard(fen), newSolution)
+    }
+
+    // Aborts any generation in progress and returns a signal for the new one
+    const beginGeneration = () => {
+        generation.current?.abort()
+        positionSearch.current?.abort()
+        positionRating.current?.abort()
+        const controller = new AbortController()
+        generation.current = controller
         setIsGenerating(true)
+        setGenerationProgress(null)
         setIsActive(false) // Reset active state
         setElapsedTime(0)
+        return controller
+    }
+
+    const endGeneration = (controller: AbortController) => {
+        if (generation.current !== controller) return
+        generation.current = null
+        setIsGenerating(false)
+        setGenerationProgress(null)
+    }
+
+    const cancelGeneration = () => {
+        generation.current?.abort()
+        plausibleEvent('double-strike:generation-cancelled')
+    }
+
+    // Stop any running worker when leaving the page
+    useEffect(() => {
+        return () => {
+            generation.current?.abort()
+            positionSearch.current?.abort()
+            positionRating.current?.abort()
+        }
+    }, [])
+
+    const generateNewPuzzle = async (isInitial: boolean = false) => {
+        const controller = beginGeneration()
         try {
-            const gen = new DoubleStrikeChessGenerator()
-            const randomPieceCount =
-                Math.floor(Math.random() * (pieceCountRange[1] - pieceCountRange[0] + 1)) + pieceCountRange[0]
-            try {
-                await gen.generate(randomPieceCount)
-            } catch (err) {
-                plausibleEvent('double-strike:generation-failed')
+            const { allowedPieces, difficulty: targetDifficulty } = generationSettings
+            // Small boards can't fit the largest piece counts
+            const randomPieceCount = Math.min(
+                targetDifficulty
+                    ? BAND_PIECE_COUNTS[targetDifficulty]
+                    : Math.floor(Math.random() * (pieceCountRange[1] - pieceCountRange[0] + 1)) + pieceCountRange[0],
+                maxPieceCount(boardSize),
+            )
+            const request: PuzzleRequest = {
+                pieceCount: randomPieceCount,
+                strikeLimit,
+                colorRule,
+                boardSize,
+                allowedPieces,
+                finalPiece: settingsFinalPiece(generationSettings),
+                targetDifficulty: targetDifficulty ?? undefined,
+                quality: generationSettings.quality,
+            }
+            // Pre-generated puzzles are instant, the generator only runs once the pack has none left
+            const pack = await loadBundledPack()
+            const puzzle =
+                (pack && takePackedPuzzle(pack, request)) ??
+                (await generatePuzzleInWorker(request, {
+                    signal: controller.signal,
+                    onProgress: setGenerationProgress,
+                }))
+
+            // The piece count is up to the generator when a difficulty is targeted
+            if (!targetDifficulty && puzzle.pieceCount < randomPieceCount) {
                 notifications.show({
-                    message: 'Puzzle generation failed. Please try again or choose fewer pieces.',
-                    color: 'red',
+                    message: `${randomPieceCount} pieces took too long to generate, so this puzzle has ${puzzle.pieceCount} pieces.`,
+                    color: 'yellow',
                 })
-                setIsGenerating(false)
-                return
             }
 
-            const newFen = gen.getFEN() + ' w - - 0 1'
-            const newSolution = gen.getSolution()
-
             // Push new state to history
-            const searchParams = new URLSearchParams()
-            searchParams.set('fen', newFen)
-            searchParams.set('sol', btoa(JSON.stringify(newSolution)))
+            const searchParams = puzzleSearchParams(puzzle.code, puzzle.rules, allowedPieces)
+            loadedPuzzleParams.current = searchParams.toString()
             navigate(`/double-strike?${searchParams.toString()}`, { replace: isInitial })
 
-            setElapsedTime(0)
-            setOriginalFen(newFen)
-            setSolution(newSolution)
-            setShowSolution(false)
-
-            setGameState({
-                board: fenToBoard(newFen),
-                moveCount: new Map(),
-            })
+            startPuzzle(puzzle.fen, puzzle.solution, puzzle.rules, puzzle.difficulty)
 
             if (!isInitial) {
                 plausibleEvent('double-strike:new-puzzle')
             }
+        } catch (err) {
+            if (isAbortError(err)) return
+            plausibleEvent('double-strike:generation-failed')
+            notifications.show({
+                message: 'Puzzle generation failed. Please try again, choose fewer pieces or relax the quality rules.',
+                color: 'red',
+            })
         } finally {
-            setIsGenerating(false)
+            endGeneration(controller)
         }
     }
 
-    // Add helper function to convert FEN to board
-    const fenToBoard = (fen: string) => {
-        const rows = fen.split(' ')[0].split('/')
-        let pieceCounter = 0
-        return rows.map(row => {
-            const cells: (TrackedPiece | null)[] = []
-            for (const char of row) {
-                if (isNaN(parseInt(char))) {
-                    cells.push({
-                        id: `piece_${pieceCounter++}`,
-                        type: char as SimplePiece,
-                    })
-                } else {
-                    cells.push(...Array(parseInt(char)).fill(null))
-                }
-            }
-            return cells
-        })
+    const loadPuzzleFromCode = async (code: string, codeRules: VariantRules, allowedPieces: SimplePiece[]) => {
+        const puzzleCode = decodePuzzleCode(code)
+
+        if (!puzzleCode) {
+            notifications.show({
+                message: 'Invalid puzzle code in URL. Please start a new puzzle.',
+                color: 'red',
+            })
+            return
+        }
+
+        const controller = beginGeneration()
+        try {
+            // A shared code must reproduce exactly, so never fall back to fewer pieces
+            const puzzle = await generatePuzzleInWorker(
+                { ...puzzleCode, ...codeRules, allowedPieces },
+                { signal: controller.signal, onProgress: setGenerationProgress, fallbackAfterMs: null },
+            )
+            startPuzzle(puzzle.fen, puzzle.solution, puzzle.rules, puzzle.difficulty)
+        } catch (err) {
+            if (isAbortError(err)) return
+            plausibleEvent('double-strike:generation-failed')
+            notifications.show({
+                message: 'Could not recreate the puzzle for this code. Please start a new puzzle.',
+                color: 'red',
+            })
+        } finally {
+            endGeneration(controller)
+        }
     }
 
     // Update effect to handle history navigation
@@ -277,19 +461,25 @@ export function DoubleStrikeChess() {
         const params = new URLSearchParams(location.search)
         const fenParam = params.get('fen')
         const solParam = params.get('sol')
-
-        if (fenParam) {
+        const puzzleParam = params.get('puzzle')
+        const urlRules = parseRuleParams(params)
+        positionSearch.current?.abort()
+        positionRating.current?.abort()
+
+        if (puzzleParam) {
+            // Skip regenerating a puzzle that was just generated or loaded
+            if (params.toString() !== loadedPuzzleParams.current) {
+                loadedPuzzleParams.current = params.toString()
+                loadPuzzleFromCode(puzzleParam, urlRules, parsePieceSet(params.get('pieces')) ?? CAPTURABLE_PIECES)
+            }
+        } else if (fenParam) {
             if (!isValidFen(fenParam)) {
                 // Clear the invalid state but keep the invalid FEN displayed
-                setGameState({
-                    board: Array(8)
-                        .fill(null)
-                        .map(() => Array(8).fill(null)),
-                    moveCount: new Map(),
-                })
+                resetGame(emptyBoard())
                 setElapsedTime(0)
                 setIsActive(false)
                 setOriginalFen(fenParam) // Keep the invalid FEN in the text box
+                setDifficulty(null)
 
                 // Show notification only if we haven't already notified for this FEN
                 if (lastNotifiedFen.current !== fenParam) {
@@ -302,194 +492,60 @@ export function DoubleStrikeChess() {
                 return
             }
 
-            setOriginalFen(fenParam)
-            setGameState({
-                board: fenToBoard(fenParam),
-                moveCount: new Map(),
-            })
-            setElapsedTime(0)
-            setShowSolution(false)
-
-            if (solParam) {
-                try {
-                    const decodedSolution = JSON.parse(atob(solParam))
-                    setSolution(decodedSolution)
-                } catch (e) {
-                    console.error('Failed to decode solution')
-                }
+            const fenRules = { ...urlRules, boardSize: fenBoardSize(fenParam) }
+            if (!solParam) {
+                searchCustomPosition(fenParam, fenRules)
+                return
+            }
+
+            let fenSolution: string[] = []
+            try {
+                // Links shared before long notation write pawn captures differently
+                const sharedSolution: string[] = JSON.parse(atob(solParam))
+                fenSolution = upgradeSolution(fenParam, sharedSolution) ?? sharedSolution
+            } catch (e) {
+                console.error('Failed to decode solution')
             }
+            startPuzzle(fenParam, fenSolution, fenRules, null)
+            if (fenSolution.length > 0) rateCustomPosition(fenParam, fenSolution, fenRules)
         } else if (location.pathname === '/double-strike' && !location.search) {
             // Only generate new puzzle on initial load
             generateNewPuzzle(true)
         }
     }, [location]) // Remove originalFen from dependencies since we're using a ref
 
-    function hasLineOfSight(from: Position, to: Position, board: (TrackedPiece | null)[][]): boolean {
-        const dx = to.x - from.x
-        const dy = to.y - from.y
-
-        // Determine step direction
-        const stepX = dx === 0 ? 0 : dx / Math.abs(dx)
-        const stepY = dy === 0 ? 0 : dy / Math.abs(dy)
-
-        // Check each square between from and to (exclusive)
-        let x = from.x + stepX
-        let y = from.y + stepY
-
-        while (x !== to.x || y !== to.y) {
-            if (board[y][x] !== null) {
-                return false // Path is blocked
-            }
-            x += stepX
-            y += stepY
-        }
-
-        return true
-    }
-
-    function isValidMove(from: Position, to: Position, piece: SimplePiece, board: (TrackedPiece | null)[][]): boolean {
-        const dx = Math.abs(from.x - to.x)
-        const dy = Math.abs(from.y - to.y)
-
-        // Check if target is a king
-        const targetPiece = board[to.y][to.x]
-        if (targetPiece?.type === 'K') {
-            return false // Cannot capture kings
-        }
-
-        switch (piece) {
-            case 'P':
-                return dx === 1 && to.y - from.y === -1
-            case 'N':
-                return (dx === 2 && dy === 1) || (dx === 1 && dy === 2)
-            case 'B':
-                return dx === dy && hasLineOfSight(from, to, board)
-            case 'R':
-                return (dx === 0 || dy === 0) && hasLineOfSight(from, to, board)
-            case 'Q':
-                return (dx === dy || dx === 0 || dy === 0) && hasLineOfSight(from, to, board)
-            case 'K':
-                return dx <= 1 && dy <= 1
-            default:
-                return false
-        }
-    }
-
-    function onPieceDrop(sourceSquare: Square, targetSquare: Square, piece: Piece): boolean {
-        const fromPos = algebraicToPosition(sourceSquare)
-        const toPos = algebraicToPosition(targetSquare)
-
-        const sourcePiece = gameState.board[fromPos.y][fromPos.x]
-        const targetPiece = gameState.board[toPos.y][toPos.x]
-
-        // Validation checks
-        if (!targetPiece || !sourcePiece) return false
-        const currentMoves = gameState.moveCount.get(sourcePiece.id) || 0
-        if (currentMoves >= 2) return false
-        if (!isValidMove(fromPos, toPos, sourcePiece.type, gameState.board)) return false
-
-        const newPiece: TrackedPiece = {
-            id: sourcePiece.id,
-            type: pieceToSimplePiece(piece),
-        }
-
-        const newBoard = gameState.board.map(row => [...row])
-        newBoard[toPos.y][toPos.x] = newPiece
-        newBoard[fromPos.y][fromPos.x] = null
-
-        const newMoveCount = new Map(gameState.moveCount)
-        newMoveCount.set(sourcePiece.id, currentMoves + 1)
-
-        setGameState({
-            board: newBoard,
-            moveCount: newMoveCount,
+    const shareCurrentPosition = () => {
+        navigator.clipboard.writeText(window.location.href)
+        notifications.show({
+            message: 'Link copied to clipboard',
+            color: 'blue',
         })
-
-        playSound(captureSound)
-        return true
+        plausibleEvent('double-strike:share')
     }
 
-    function onPromotionPieceSelect(
-        piece?: PromotionPieceOption,
-        sourceSquare?: Square,
-        targetSquare?: Square,
-    ): boolean {
-        if (!piece || !sourceSquare || !targetSquare) return false
-
-        const fromPos = algebraicToPosition(sourceSquare)
-        const toPos = algebraicToPosition(targetSquare)
-
-        const sourcePiece = gameState.board[fromPos.y][fromPos.x]
-        if (!sourcePiece) return false
-
-        const promotedPiece: TrackedPiece = {
-            id: sourcePiece.id,
-            type: pieceToSimplePiece(piece),
-        }
-
-        const newBoard = gameState.board.map(row => [...row])
-        newBoard[toPos.y][toPos.x] = promotedPiece
-        newBoard[fromPos.y][fromPos.x] = null
-
-        const newMoveCount = new Map(gameState.moveCount)
-        const currentMoves = gameState.moveCount.get(sourcePiece.id) || 0
-        newMoveCount.set(sourcePiece.id, currentMoves + 1)
-
-        setGameState({
-            board: newBoard,
-            moveCount: newMoveCount,
-        })
-
-        playSound(captureSound)
-        return true
+    // Opens the position on the board in the editor with the same rules
+    const editPosition = () => {
+        const searchParams = new URLSearchParams()
+        searchParams.set('fen', originalFen)
+        setRuleParams(searchParams, puzzleRules)
+        navigate(`/double-strike/editor?${searchParams.toString()}`)
     }
 
-    function onPromotionCheck(sourceSquare: Square, targetSquare: Square, piece: Piece): boolean {
-        if (!sourceSquare || !targetSquare || !piece) return false
-
-        const fromPos = algebraicToPosition(sourceSquare)
-        const toPos = algebraicToPosition(targetSquare)
-
-        // Check if there's a piece to capture
-        const targetPiece = gameState.board[toPos.y][toPos.x]
-        if (!targetPiece) return false
-
-        // Get the source piece to check its move count
-        const sourcePiece = gameState.board[fromPos.y][fromPos.x]
-        if (!sourcePiece) return false
-
-        // Check move count limit using the piece's ID
-        const currentMoves = gameState.moveCount.get(sourcePiece.id) || 0
-        if (currentMoves >= 2) return false
-
-        // Check if it's a valid pawn capture move
-        const dx = Math.abs(fromPos.x - toPos.x)
-        if (dx !== 1) return false // Must be a diagonal capture
-
-        // For white pawns moving up (negative dy)
-        if (piece === 'wP' && sourceSquare[1] === '7' && targetSquare[1] === '8') {
-            return true
+    // Copies the puzzle and its solution for pasting into other chess tools
+    const exportPuzzle = (format: 'epd' | 'pgn') => {
+        const puzzle: PuzzleExport = {
+            fen: originalFen,
+            solution,
+            rules: puzzleRules,
+            code: new URLSearchParams(location.search).get('puzzle') ?? undefined,
+            url: window.location.href,
         }
-
-        return false
-    }
-
-    function isDraggablePiece({ sourceSquare }: { piece: Piece; sourceSquare: Square }): boolean {
-        if (remainingPieces === 1) return false
-        const pos = algebraicToPosition(sourceSquare)
-        const sourcePiece = gameState.board[pos.y][pos.x]
-        if (!sourcePiece) return false
-        const moves = gameState.moveCount.get(sourcePiece.id) || 0
-        return moves < 2
-    }
-
-    const shareCurrentPosition = () => {
-        navigator.clipboard.writeText(window.location.href)
+        navigator.clipboard.writeText(format === 'epd' ? puzzleToEpd(puzzle) : puzzleToPgn(puzzle))
         notifications.show({
-            message: 'Link copied to clipboard',
+            message: `${format.toUpperCase()} copied to clipboard`,
             color: 'blue',
         })
-        plausibleEvent('double-strike:share')
+        plausibleEvent('double-strike:export', { props: { format } })
     }
 
     // Format time as MM:SS
@@ -499,11 +555,67 @@ export function DoubleStrikeChess() {
         return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`
     }
 
+    const showHint = async () => {
+        if (activeHint) {
+            setHint({ ...activeHint, level: 2 })
+            setHintsUsed(hintsUsed + 1)
+            plausibleEvent('double-strike:hint-target')
+            return
+        }
+
+        setIsFindingHint(true)
+        try {
+            const { solvability, solution: hintSolution } = await solveCurrentPosition()
+            const move = hintSolution?.length ? parseLongMove(hintSolution[0], puzzleRules.boardSize) : null
+            if (!move) {
+                notifications.show({
+                    message:
+                        solvability === 'unsolvable'
+                            ? 'There is no solution from this position.'
+                            : 'This position is too large to find a hint.',
+                    color: 'yellow',
+                })
+                return
+            }
+
+            setHint({ state: gameState, move, level: 1 })
+            setHintsUsed(hintsUsed + 1)
+            plausibleEvent('double-strike:hint')
+        } catch (err) {
+            console.error('Failed to find a hint', err)
+            notifications.show({ message: 'Could not find a hint. Please try again.', color: 'red' })
+        } finally {
+            setIsFindingHint(false)
+        }
+    }
+
+    const hintSquareStyles = (() => {
+        if (!activeHint) return undefined
+        const styles: Record<string, { backgroundColor: string }> = {
+            [positionToAlgebraic(activeHint.move.from, puzzleRules.boardSize)]: {
+                backgroundColor: 'rgba(34, 139, 230, 0.5)',
+            },
+        }
+        if (activeHint.level === 2) {
+            styles[positionToAlgebraic(activeHint.move.to, puzzleRules.boardSize)] = {
+                backgroundColor: 'rgba(34, 139, 230, 0.3)',
+            }
+        }
+        return styles
+    })()
+
+    // The replay has its own arrow key controls
+    useHotkeys(
+        isReplaying
+            ? []
+            : [
+                  ['ArrowLeft', undoMove],
+                  ['ArrowRight', redoMove],
+              ],
+    )
+
     const retryPuzzle = () => {
-        setGameState({
-            board: fenToBoard(originalFen),
-            moveCount: new Map(),
-        })
+        resetGame(fenToBoard(originalFen), solution)
     }
 
     const handleRulesClose = () => {
@@ -515,6 +627,63 @@ export function DoubleStrikeChess() {
         }
     }
 
+    /*
+        Custom positions have no generated solution, so one is searched for in a worker. The board stays
+        empty until the search is done, so the dead end check doesn't search the same position meanwhile.
+    */
+    const searchCustomPosition = async (fen: string, fenRules: VariantRules) => {
+        positionSearch.current?.abort()
+        const controller = new AbortController()
+        positionSearch.current = controller
+        setIsSearchingPosition(true)
+        setIsActive(false)
+        startPuzzle(fen, [], fenRules, null)
+        resetGame(emptyBoard(fenRules.boardSize))
+        try {
+            const result = await solveInWorker(
+                boardFromFen(fen),
+                { maxSolutions: 1, rules: fenRules },
+                controller.signal,
+            )
+            if (!result.solvable) {
+                resetGame(fenToBoard(fen))
+                notifications.show({
+                    message: result.complete
+                        ? 'This position cannot be solved.'
+                        : 'This position is too large to check for a solution.',
+                    color: result.complete ? 'red' : 'yellow',
+                })
+                return
+            }
+            const fenSolution = formatSolution(result.solution!, fenRules.boardSize)
+            startPuzzle(fen, fenSolution, fenRules, null)
+            rateCustomPosition(fen, fenSolution, fenRules)
+        } catch (err) {
+            if (isAbortError(err)) return
+            console.error('Failed to search the position', err)
+            resetGame(fenToBoard(fen))
+            notifications.show({ message: 'Could not search this position for a solution.', color: 'red' })
+        } finally {
+            if (positionSearch.current === controller) {
+                positionSearch.current = null
+                setIsSearchingPosition(false)
+            }
+        }
+    }
+
+    const rateCustomPosition = async (fen: string, fenSolution: string[], fenRules: VariantRules) => {
+        positionRating.current?.abort()
+        const controller = new AbortController()
+        positionRating.current = controller
+        try {
+            setDifficulty(await rateInWorker(fen, fenSolution, fenRules, controller.signal))
+        } catch (err) {
+            if (!isAbortError(err)) console.error('Failed to rate the position', err)
+        } finally {
+            if (positionRating.current === controller) positionRating.current = null
+        }
+    }
+
     const handleFenChange = (newFen: string) => {
         // If FEN only has piece placement, add standard suffix
         const parts = newFen.split(' ')
@@ -530,20 +699,14 @@ export function DoubleStrikeChess() {
             return
         }
 
-        // Update URL and game state
+        // Custom positions are played with the rule settings. The URL effect sets up the game,
+        // so the position is only searched once for its solution and rating.
+        const rules = { strikeLimit, colorRule, boardSize: fenBoardSize(newFen) }
         const searchParams = new URLSearchParams()
         searchParams.set('fen', newFen)
-        navigate(`/double-strike?${searchParams.toString()}`, { replace: true })
-
-        setOriginalFen(newFen)
-        setGameState({
-            board: fenToBoard(newFen),
-            moveCount: new Map(),
-        })
-        setElapsedTime(0)
+        setRuleParams(searchParams, rules)
         setIsActive(false) // Stop the timer
-        setShowSolution(false)
-        setSolution([])
+        navigate(`/double-strike?${searchParams.toString()}`, { replace: true })
 
         plausibleEvent('double-strike:custom-position')
     }
@@ -565,8 +728,13 @@ export function DoubleStrikeChess() {
                             Every move must capture a piece.
                         </Text>
                         <Text size="sm" component="li">
-                            Pieces may move two times.
+                            {strikeRuleText(puzzleRules.strikeLimit)}
                         </Text>
+                        {colorRuleText(puzzleRules.colorRule) && (
+                            <Text size="sm" component="li">
+                                {colorRuleText(puzzleRules.colorRule)}
+                            </Text>
+                        )}
                         <Text size="sm" component="li">
                             The King cannot be captured.
                         </Text>
@@ -577,7 +745,7 @@ export function DoubleStrikeChess() {
                         <Group justify="space-between" align="center" gap={4} h={36}>
                             <Group gap="xs">
                                 <IconSwords size={32} />
-                                <Title order={2}>Double Strike</Title>
+                                <Title order={2}>{strikeLimitName(puzzleRules.strikeLimit)} Strike</Title>
                             </Group>
                             <Tooltip
                                 label="Read the rules"
@@ -606,21 +774,35 @@ export function DoubleStrikeChess() {
                             </Tooltip>
                         </Group>
                     </Grid.Col>
-                    <Grid.Col span={4} display={{ base: 'none', md: 'block' }}></Grid.Col>
+                    <Grid.Col span={{ base: 12, md: 4 }}>
+                        <DoubleStrikeModes />
+                    </Grid.Col>
                 </Grid>
                 <Grid justify="center">
                     <Grid.Col span={{ base: 12, md: 5 }}>
                         <Box>
-                            <MyChessboard
-                                position={positionFen}
-                                onPieceDrop={onPieceDrop}
-                                onPromotionPieceSelect={onPromotionPieceSelect}
-                                onPromotionCheck={onPromotionCheck}
-                                promotionDialogVariant="vertical"
-                                boardOrientation="white"
-                                animationDuration={0}
-                                isDraggablePiece={isDraggablePiece}
-                            />
+                            {isReplaying ? (
+                                <SolutionReplay
+                                    fen={originalFen}
+                                    solution={solution}
+                                    onClose={() => setIsReplaying(false)}
+                                />
+                            ) : (
+                                <MyChessboard
+                                    position={positionFen}
+                                    onPieceDrop={onPieceDrop}
+                                    onPromotionPieceSelect={onPromotionPieceSelect}
+                                    onPromotionCheck={onPromotionCheck}
+                                    promotionDialogVariant="vertical"
+                                    boardOrientation="white"
+                                    animationDuration={0}
+                                    isDraggablePiece={isDraggablePiece}
+                                    customSquareStyles={hintSquareStyles}
+                                    fadedPieces={exhaustedSquares}
+                                    piecePips={strikePips}
+                                    boardSize={puzzleRules.boardSize}
+                                />
+                            )}
                         </Box>
                     </Grid.Col>
                     <Grid.Col span={{ base: 12, md: 4 }}>
@@ -644,6 +826,7 @@ export function DoubleStrikeChess() {
                                             <Button
                                                 variant="outline"
                                                 size="md"
+                                                disabled={isSearchingPosition}
                                                 onClick={() => {
                                                     retryPuzzle()
                                                     plausibleEvent('double-strike:reset')
@@ -659,56 +842,137 @@ export function DoubleStrikeChess() {
                                         </Text>
                                     )}
                                 </Group>
-                                <Text
-                                    size={rem(60)}
-                                    fw={700}
-                                    style={{ fontFamily: 'monospace' }}
-                                    c={remainingPieces === 1 ? 'green' : undefined}
-                                >
-                                    {formatTime(elapsedTime)}
-                                </Text>
+                                <Group align="baseline" gap="lg">
+                                    <Text
+                                        size={rem(60)}
+                                        fw={700}
+                                        style={{ fontFamily: 'monospace' }}
+                                        c={remainingPieces === 1 ? 'green' : undefined}
+                                    >
+                                        {formatTime(elapsedTime)}
+                                    </Text>
+                                    {difficulty && (
+                                        <Badge
+                                            size="lg"
+                                            variant="light"
+                                            title={`Rated from ${difficulty.factors.captures} captures`}
+                                        >
+                                            {difficulty.rating} · {difficultyBandName(difficulty.band)}
+                                        </Badge>
+                                    )}
+                                    {hintsUsed > 0 && (
+                                        <Text c="dimmed">
+                                            {hintsUsed} {hintsUsed === 1 ? 'hint' : 'hints'}
+                                        </Text>
+                                    )}
+                                </Group>
                                 {remainingPieces > 1 && (
                                     <Text display={{ base: 'none', md: 'block' }}>
                                         {remainingPieces - 1} pieces left
                                     </Text>
                                 )}
+                                {sideToMove && remainingPieces > 1 && (
+                                    <Text fw={700}>{sideToMove === 'w' ? 'White' : 'Black'} to move</Text>
+                                )}
+                                {isDeadEnd && (
+                                    <Alert color="red" title="Dead end">
+                                        <Text size="sm" mb={historyIndex > 0 ? 'sm' : 0}>
+                                            {historyIndex > 0
+                                                ? 'This position can no longer be solved.'
+                                                : 'This position cannot be solved.'}
+                                        </Text>
+                                        {historyIndex > 0 && (
+                                            <Button
+                                                color="red"
+                                                size="sm"
+                                                onClick={undoToLastSolvable}
+                                                loading={isUndoingToSolvable}
+                                            >
+                                                Undo to last solvable position
+                                            </Button>
+                                        )}
+                                    </Alert>
+                                )}
+                                {solvability === 'unknown' && (
+                                    <Text size="sm" c="dimmed">
+                                        This position is too large to check whether it can still be solved.
+                                    </Text>
+                                )}
+                                {isSearchingPosition && (
+                                    <Text size="sm" c="dimmed">
+                                        Searching for a solution...
+                                    </Text>
+                                )}
                                 {remainingPieces === 1 && (
                                     <Text size="xl" fw={700} c="green">
                                         Puzzle complete! 🎉
                                     </Text>
                                 )}
-                            </Stack>
-                            <Stack gap="md">
-                                {showSolution && (
+                                {history.length > 1 && (
                                     <Box>
-                                        <Text>Solution</Text>
-                                        <Code
-                                            lh={1.8}
-                                            fz="md"
-                                            block
-                                            style={{
-                                                maxHeight: '300px',
-                                                overflowY: 'auto',
-                                            }}
-                                        >
-                                            {solution.reduce((acc, move, index) => {
-                                                const moveText = `${(index + 1)
-                                                    .toString()
-                                                    .padStart(2, ' ')}..${move.padEnd(7)}`
-                                                if ((index + 1) % 3 === 0) {
-                                                    return acc + moveText + '\n'
-                                                }
-                                                return acc + moveText + '   '
-                                            }, '')}
-                                        </Code>
+                                        <Group gap={4} mb={4}>
+                                            <Text mr="xs">Moves</Text>
+                                            <ActionIcon
+                                                variant="subtle"
+                                                onClick={undoMove}
+                                                disabled={historyIndex === 0}
+                                                title="Undo (Left arrow)"
+                                            >
+                                                <IconArrowBackUp size={20} />
+                                            </ActionIcon>
+                                            <ActionIcon
+                                                variant="subtle"
+                                                onClick={redoMove}
+                                                disabled={historyIndex === history.length - 1}
+                                                title="Redo (Right arrow)"
+                                            >
+                                                <IconArrowForwardUp size={20} />
+                                            </ActionIcon>
+                                        </Group>
+                                        <Group gap={4}>
+                                            {history.slice(1).map((entry, index) => (
+                                                <Button
+                                                    key={index}
+                                                    size="compact-sm"
+                                                    variant={index + 1 === historyIndex ? 'filled' : 'subtle'}
+                                                    color={index + 1 > historyIndex ? 'gray' : undefined}
+                                                    onClick={() => goToMove(index + 1)}
+                                                    style={{ fontFamily: 'monospace' }}
+                                                >
+                                                    {index + 1}. {entry.notation}
+                                                </Button>
+                                            ))}
+                                        </Group>
                                     </Box>
                                 )}
+                            </Stack>
+                            <Stack gap="md">
+                                {showSolution && <SolutionList solution={solution} />}
+                                <GenerationSettingsPanel
+                                    settings={generationSettings}
+                                    strikeLimit={strikeLimit}
+                                    onChange={setGenerationSettings}
+                                />
+                                <VariantRulesControls
+                                    rules={{ strikeLimit, colorRule, boardSize }}
+                                    onChange={rules => {
+                                        setStrikeLimit(rules.strikeLimit)
+                                        setColorRule(rules.colorRule)
+                                        setBoardSize(rules.boardSize)
+                                    }}
+                                    withBoardSize
+                                />
                                 <Box mb="lg">
                                     <Text size={rem(18)}>Piece Count</Text>
                                     <Text size={rem(12)} mb={8}>
-                                        More pieces take longer to generate and may fail.
+                                        {generationSettings.difficulty
+                                            ? 'The piece count is picked to match the difficulty.'
+                                            : 'More pieces take longer to generate and may fail.'}
+                                        {maxPieceCount(boardSize) < MAX_PIECE_COUNT &&
+                                            ` At most ${maxPieceCount(boardSize)} pieces fit on this board.`}
                                     </Text>
                                     <RangeSlider
+                                        disabled={!!generationSettings.difficulty}
                                         min={MIN_PIECE_COUNT}
                                         max={MAX_PIECE_COUNT}
                                         value={pieceCountRange}
@@ -731,6 +995,11 @@ export function DoubleStrikeChess() {
                                     >
                                         New Puzzle
                                     </Button>
+                                    {isGenerating && (
+                                        <Button variant="subtle" size="md" color="gray" onClick={cancelGeneration}>
+                                            Cancel
+                                        </Button>
+                                    )}
                                     <Button
                                         variant="outline"
                                         size="md"
@@ -742,7 +1011,33 @@ export function DoubleStrikeChess() {
                                     >
                                         {showSolution ? 'Hide Solution' : 'Solution'}
                                     </Button>
+                                    <Button
+                                        variant="outline"
+                                        size="md"
+                                        onClick={() => {
+                                            setIsReplaying(true)
+                                            plausibleEvent('double-strike:replay-solution')
+                                        }}
+                                        disabled={!solution.length || isReplaying}
+                                    >
+                                        Replay
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        size="md"
+                                        onClick={showHint}
+                                        loading={isFindingHint}
+                                        disabled={remainingPieces <= 1 || isDeadEnd || activeHint?.level === 2}
+                                    >
+                                        {activeHint ? 'Show Target' : 'Hint'}
+                                    </Button>
                                 </Group>
+                                {generationProgress && (
+                                    <Text size="sm" c="dimmed">
+                                        Generating {generationProgress.pieceCount} pieces,{' '}
+                                        {generationProgress.attempts.toLocaleString()} attempts so far...
+                                    </Text>
+                                )}
                             </Stack>
                         </Stack>
                     </Grid.Col>
@@ -759,6 +1054,35 @@ export function DoubleStrikeChess() {
                                 >
                                     <IconShare />
                                 </ActionIcon>
+                                <Menu position="bottom-start">
+                                    <Menu.Target>
+                                        <ActionIcon
+                                            variant="subtle"
+                                            size="xl"
+                                            title="Export puzzle"
+                                            disabled={!originalFen || !isValidFen(originalFen)}
+                                        >
+                                            <IconFileExport />
+                                        </ActionIcon>
+                                    </Menu.Target>
+                                    <Menu.Dropdown>
+                                        <Menu.Item onClick={() => exportPuzzle('epd')}>Copy EPD</Menu.Item>
+                                        <Menu.Item onClick={() => exportPuzzle('pgn')}>Copy PGN</Menu.Item>
+                                    </Menu.Dropdown>
+                                </Menu>
+                                <ActionIcon
+                                    variant="subtle"
+                                    size="xl"
+                                    onClick={editPosition}
+                                    title="Edit position"
+                                    disabled={
+                                        !originalFen ||
+                                        !isValidFen(originalFen) ||
+                                        puzzleRules.boardSize !== DEFAULT_BOARD_SIZE
+                                    }
+                                >
+                                    <IconPencil />
+                                </ActionIcon>
                                 <TextInput
                                     value={originalFen}
                                     onChange={e => handleFenChange(e.target.value)}
@@ -0,0 +1,271 @@
+import { useState, useEffect, useRef } from 'react'
+import { Alert, Badge, Button, Stack, Text, Group, Box, Grid, Center, rem, Title } from '@mantine/core'
+import { IconCalendar } from '@tabler/icons-react'
+import { notifications } from '@mantine/notifications'
+import { useDocumentTitle } from '@mantine/hooks'
+import { useLocation, useNavigate } from 'react-router-dom'
+import { MyChessboard } from '../components/my-chessboard'
+import { plausibleEvent } from '../plausible'
+import { createSound, playSound } from '../utils/sound'
+import { DailyCalendar } from './daily-calendar'
+import {
+    DailyHistory,
+    WEEKDAY_NAMES,
+    bestDailyStreak,
+    dailyPuzzleRequest,
+    dailyStreak,
+    dateKey,
+    keyToDate,
+    loadDailyHistory,
+    parseDateKey,
+    saveDailyHistory,
+    weekdayIndex,
+} from './daily-puzzle'
+import { DoubleStrikeModes } from './double-strike-modes'
+import { GeneratedPuzzle } from './generate-puzzle'
+import { generatePuzzleInWorker, isAbortError } from './puzzle-worker'
+import { SolutionList } from './solution-list'
+import { fenToBoard, useDoubleStrikeGame } from './use-double-strike-game'
+
+const winSound = createSound('/win.wav')
+
+// Format time as MM:SS
+const formatTime = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60)
+    const remainingSeconds = seconds % 60
+    return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`
+}
+
+const formatDate = (key: string): string =>
+    keyToDate(key).toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })
+
+export function DoubleStrikeDaily() {
+    useDocumentTitle('Double Strike Daily | ChessPrac')
+    const navigate = useNavigate()
+    const location = useLocation()
+    const {
+        remainingPieces,
+        positionFen,
+        exhaustedSquares,
+        strikePips,
+        historyIndex,
+        solvability,
+        isDeadEnd,
+        resetGame,
+        undoToLastSolvable,
+        isUndoingToSolvable,
+        onPieceDrop,
+        onPromotionPieceSelect,
+        onPromotionCheck,
+        isDraggablePiece,
+    } = useDoubleStrikeGame()
+    const [today] = useState(() => dateKey(new Date()))
+    const [history, setHistory] = useState<DailyHistory>(loadDailyHistory)
+    const [puzzle, setPuzzle] = useState<GeneratedPuzzle | null>(null)
+    const [elapsedTime, setElapsedTime] = useState(0)
+    const [showSolution, setShowSolution] = useState(false)
+    const generation = useRef<AbortController | null>(null)
+
+    // Past days can be replayed from the calendar, future ones fall back to today
+    const requestedDate = parseDateKey(new URLSearchParams(location.search).get('date'))
+    const date = requestedDate && requestedDate <= today ? requestedDate : today
+    const isToday = date === today
+    const result = history[date]
+    const isSolved = puzzle !== null && remainingPieces === 1
+    const isTimerRunning = puzzle !== null && !isSolved && !showSolution
+
+    useEffect(() => {
+        saveDailyHistory(history)
+    }, [history])
+
+    // Only the first try at today's puzzle is recorded
+    const recordResult = (solved: boolean) => {
+        if (!isToday || history[date]) return
+        setHistory(current => ({ ...current, [date]: { solved, seconds: solved ? elapsedTime : null } }))
+    }
+
+    useEffect(() => {
+        generation.current?.abort()
+        const controller = new AbortController()
+        generation.current = controller
+        setPuzzle(null)
+        setShowSolution(false)
+        setElapsedTime(0)
+
+        generatePuzzleInWorker(dailyPuzzleRequest(date), { signal: controller.signal, fallbackAfterMs: null })
+            .then(dailyPuzzle => {
+                if (generation.current !== controller) return
+                setPuzzle(dailyPuzzle)
+                resetGame(fenToBoard(dailyPuzzle.fen), dailyPuzzle.solution)
+            })
+            .catch(err => {
+                if (isAbortError(err)) return
+                plausibleEvent('double-strike:generation-failed')
+                notifications.show({
+                    message: 'Could not generate the daily puzzle. Please reload the page.',
+                    color: 'red',
+                })
+            })
+    }, [date])
+
+    // Stop generating when leaving the page
+    useEffect(() => {
+        return () => generation.current?.abort()
+    }, [])
+
+    useEffect(() => {
+        if (!isTimerRunning) return
+        const startTime = Date.now() - elapsedTime * 1000
+        const intervalId = window.setInterval(() => {
+            setElapsedTime(Math.floor((Date.now() - startTime) / 1000))
+        }, 100)
+        return () => clearInterval(intervalId)
+    }, [isTimerRunning])
+
+    useEffect(() => {
+        if (!isSolved || showSolution) return
+        playSound(winSound)
+        recordResult(true)
+        plausibleEvent('double-strike:daily-solved', { props: { weekday: WEEKDAY_NAMES[weekdayIndex(date)] } })
+    }, [isSolved])
+
+    const revealSolution = () => {
+        setShowSolution(true)
+        recordResult(false)
+        plausibleEvent('double-strike:daily-show-solution')
+    }
+
+    const selectDate = (key: string) => {
+        navigate(key === today ? '/double-strike/daily' : `/double-strike/daily?date=${key}`)
+    }
+
+    const streak = dailyStreak(history, today)
+    const bestStreak = bestDailyStreak(history)
+
+    return (
+        <Center
+            w="100vw"
+            h="auto"
+            mt={{
+                base: 'xs',
+                md: rem(40),
+            }}
+        >
+            <Stack w={{ base: '92%', md: '84%' }}>
+                <Grid justify="center">
+                    <Grid.Col span={{ base: 12, md: 5 }}>
+                        <Group gap="xs" h={36}>
+                            <IconCalendar size={32} />
+                            <Title order={2}>Daily</Title>
+                        </Group>
+                    </Grid.Col>
+                    <Grid.Col span={{ base: 12, md: 4 }}>
+                        <DoubleStrikeModes />
+                    </Grid.Col>
+                </Grid>
+                <Grid justify="center">
+                    <Grid.Col span={{ base: 12, md: 5 }}>
+                        <Box>
+                            <MyChessboard
+                                position={positionFen}
+                                onPieceDrop={onPieceDrop}
+                                onPromotionPieceSelect={onPromotionPieceSelect}
+                                onPromotionCheck={onPromotionCheck}
+                                promotionDialogVariant="vertical"
+                                boardOrientation="white"
+                                animationDuration={0}
+                                isDraggablePiece={props => puzzle !== null && isDraggablePiece(props)}
+                                fadedPieces={exhaustedSquares}
+                                piecePips={strikePips}
+                            />
+                        </Box>
+                    </Grid.Col>
+                    <Grid.Col span={{ base: 12, md: 4 }}>
+                        <Stack gap="md">
+                            <Group>
+                                <Badge size="lg" variant="light" color="green">
+                                    Streak: {streak}
+                                </Badge>
+                                <Badge size="lg" variant="light" color="yellow">
+                                    Best: {bestStreak}
+                                </Badge>
+                            </Group>
+                            <Text>
+                                {formatDate(date)}
+                                {puzzle && ` · ${puzzle.pieceCount} pieces`}
+                            </Text>
+                            <Text
+                                size={rem(60)}
+                                fw={700}
+                                style={{ fontFamily: 'monospace' }}
+                                c={isSolved ? 'green' : undefined}
+                            >
+                                {formatTime(elapsedTime)}
+                            </Text>
+                            {!puzzle && <Text c="dimmed">Generating the daily puzzle...</Text>}
+                            {!isToday && (
+                                <Text size="sm" c="dimmed">
+                                    Only today's puzzle counts towards your history and streak.
+                                </Text>
+                            )}
+                            {result && (
+                                <Text c={result.solved ? 'green' : 'red'}>
+                                    {result.solved
+                                        ? `Solved in ${formatTime(result.seconds ?? 0)}`
+                                        : 'The solution of this puzzle was revealed.'}
+                                </Text>
+                            )}
+                            {isDeadEnd && (
+                                <Alert color="red" title="Dead end">
+                                    <Text size="sm" mb="sm">
+                                        This position can no longer be solved.
+                                    </Text>
+                                    {historyIndex > 0 && (
+                                        <Button
+                                            color="red"
+                                            size="sm"
+                                            onClick={undoToLastSolvable}
+                                            loading={isUndoingToSolvable}
+                                        >
+                                            Undo to last solvable position
+                                        </Button>
+                                    )}
+                                </Alert>
+                            )}
+                            {solvability === 'unknown' && (
+                                <Text size="sm" c="dimmed">
+                                    This position is too large to check whether it can still be solved.
+                                </Text>
+                            )}
+                            {isSolved && (
+                                <Text size="xl" fw={700} c="green">
+                                    Puzzle complete! 🎉
+                                </Text>
+                            )}
+                            <Group>
+                                <Button
+                                    variant="outline"
+                                    size="md"
+                                    onClick={() => puzzle && resetGame(fenToBoard(puzzle.fen), puzzle.solution)}
+                                    disabled={!puzzle}
+                                >
+                                    Reset Puzzle
+                                </Button>
+                                <Button
+                                    variant="outline"
+                                    size="md"
+                                    onClick={revealSolution}
+                                    disabled={!puzzle || showSolution}
+                                >
+                                    Show Solution
+                                </Button>
+                            </Group>
+                            {showSolution && puzzle && <SolutionList solution={puzzle.solution} />}
+                            <DailyCalendar history={history} today={today} selected={date} onSelect={selectDate} />
+                        </Stack>
+                    </Grid.Col>
+                </Grid>
+            </Stack>
+        </Center>
+    )
+}
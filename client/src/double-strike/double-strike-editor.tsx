@@ -0,0 +1,328 @@
+import { useEffect, useState } from 'react'
+import { ActionIcon, Alert, Box, Button, Center, Grid, Group, Stack, Text, Title, rem } from '@mantine/core'
+import { ChessboardDnDProvider, SparePiece } from 'react-chessboard'
+import { Piece, Square } from 'react-chessboard/dist/chessboard/types'
+import { IconArrowsUpDown, IconEraser, IconPencil, IconShare, IconTrash } from '@tabler/icons-react'
+import { notifications } from '@mantine/notifications'
+import { useDebouncedValue, useDocumentTitle } from '@mantine/hooks'
+import { useLocation, useNavigate } from 'react-router-dom'
+import { MyChessboard } from '../components/my-chessboard'
+import { plausibleEvent } from '../plausible'
+import {
+    ColoredPiece,
+    DEFAULT_BOARD_SIZE,
+    PieceColor,
+    SimplePiece,
+    VariantRules,
+    algebraicToPosition,
+    boardToFen,
+    parseFenRows,
+    parseRuleParams,
+    pieceToSimplePiece,
+    setRuleParams,
+} from './double-strike'
+import { SolveResult, boardFromFen } from './double-strike-solver'
+import { DoubleStrikeModes } from './double-strike-modes'
+import { canStandOn } from './movement'
+import { formatSolution } from './notation'
+import { isAbortError } from './puzzle-worker'
+import { solveInWorker } from './solver-worker'
+import { VariantRulesControls } from './variant-rules-controls'
+
+type EditorBoard = (ColoredPiece | null)[][]
+
+// A solver result and the position and rules it was searched for
+type CheckedPosition = {
+    fen: string
+    rules: VariantRules
+    result: SolveResult
+}
+
+// A piece from the palette, or null to remove pieces
+type Tool = ColoredPiece | null
+
+// Spare pieces can only be dropped on the board with the same id
+const EDITOR_ID = 'double-strike-editor'
+const PALETTE: SimplePiece[] = ['K', 'Q', 'R', 'B', 'N', 'P']
+const PALETTE_PIECE_WIDTH = 44
+// Wait for a pause in editing before searching the position
+const SOLVE_DEBOUNCE_MS = 400
+
+function emptyEditorBoard(): EditorBoard {
+    return Array.from({ length: 8 }, () => Array(8).fill(null))
+}
+
+// Starts from an empty board when the FEN is missing or malformed
+function editorBoardFromFen(fen: string | null): EditorBoard {
+    if (!fen) return emptyEditorBoard()
+    const rows = parseFenRows(fen)
+    if (rows.length !== 8 || rows.some(row => row.length !== 8)) return emptyEditorBoard()
+    if (rows.flat().some(cell => cell && !PALETTE.includes(cell.type))) return emptyEditorBoard()
+    return rows
+}
+
+function pieceToColoredPiece(piece: Piece): ColoredPiece {
+    return { type: pieceToSimplePiece(piece), color: piece[0] as PieceColor }
+}
+
+function validatePosition(board: EditorBoard, { colorRule }: VariantRules): string[] {
+    const pieces = board.flat().filter(cell => cell !== null)
+    const errors: string[] = []
+
+    if (pieces.length < 2) {
+        errors.push('Place at least two pieces.')
+    }
+    if (board.some((row, y) => row.some((cell, x) => cell && !canStandOn(cell.type, { x, y }, board.length)))) {
+        errors.push('Pawns cannot stand on the first or last rank.')
+    }
+    if (pieces.filter(piece => piece.type === 'K').length > 1) {
+        errors.push('Kings cannot be captured, so there can only be one.')
+    }
+    if (colorRule === 'none' && pieces.some(piece => piece.color === 'b')) {
+        errors.push('One color positions only use white pieces.')
+    }
+    return errors
+}
+
+/*
+    Drag and drop editor for custom positions. Pieces are placed from the palette by dragging or by
+    clicking a square, and a position can only be played or shared once the solver has found a solution.
+*/
+export function DoubleStrikeEditor() {
+    useDocumentTitle('Double Strike Editor | ChessPrac')
+    const navigate = useNavigate()
+    const location = useLocation()
+    const [board, setBoard] = useState<EditorBoard>(() =>
+        editorBoardFromFen(new URLSearchParams(location.search).get('fen')),
+    )
+    // The editor only has an 8x8 board
+    const [rules, setRules] = useState<VariantRules>(() => ({
+        ...parseRuleParams(new URLSearchParams(location.search)),
+        boardSize: DEFAULT_BOARD_SIZE,
+    }))
+    const [tool, setTool] = useState<Tool>({ type: 'Q', color: 'w' })
+    const [orientation, setOrientation] = useState<'white' | 'black'>('white')
+
+    const fen = `${boardToFen(board)} w - - 0 1`
+    const errors = validatePosition(board, rules)
+    const colors: PieceColor[] = rules.colorRule === 'none' ? ['w'] : ['w', 'b']
+
+    // Only checked once the position is otherwise valid, in a worker since large positions take a while
+    const [positionToCheck] = useDebouncedValue(errors.length > 0 ? null : fen, SOLVE_DEBOUNCE_MS)
+    const [checked, setChecked] = useState<CheckedPosition | null>(null)
+    const result = errors.length === 0 && checked?.fen === fen && checked.rules === rules ? checked.result : null
+    const isChecking = errors.length === 0 && !result
+    const isSolvable = result?.solvable ?? false
+
+    useEffect(() => {
+        if (!positionToCheck) return
+        const controller = new AbortController()
+        solveInWorker(boardFromFen(positionToCheck), { maxSolutions: 1, rules }, controller.signal)
+            .then(solved => setChecked({ fen: positionToCheck, rules, result: solved }))
+            .catch(err => {
+                if (!isAbortError(err)) console.error('Failed to check the position', err)
+            })
+        return () => controller.abort()
+    }, [positionToCheck, rules])
+
+    const setSquare = (square: Square, piece: ColoredPiece | null) => {
+        const { x, y } = algebraicToPosition(square)
+        setBoard(current =>
+            current.map((row, rowY) => row.map((cell, cellX) => (rowY === y && cellX === x ? piece : cell))),
+        )
+    }
+
+    const onSquareClick = (square: Square) => {
+        const { x, y } = algebraicToPosition(square)
+        const current = board[y][x]
+        // Clicking a square with the selected piece on it removes the piece
+        if (!tool || (current?.type === tool.type && current.color === tool.color)) {
+            setSquare(square, null)
+        } else {
+            setSquare(square, tool)
+        }
+    }
+
+    const onPieceDrop = (sourceSquare: Square, targetSquare: Square, piece: Piece): boolean => {
+        const from = algebraicToPosition(sourceSquare)
+        const to = algebraicToPosition(targetSquare)
+        setBoard(current =>
+            current.map((row, y) =>
+                row.map((cell, x) => {
+                    if (y === to.y && x === to.x) return pieceToColoredPiece(piece)
+                    if (y === from.y && x === from.x) return null
+                    return cell
+                }),
+            ),
+        )
+        return true
+    }
+
+    const onSparePieceDrop = (piece: Piece, targetSquare: Square): boolean => {
+        setSquare(targetSquare, pieceToColoredPiece(piece))
+        return true
+    }
+
+    const playPath = (): string => {
+        const searchParams = new URLSearchParams()
+        searchParams.set('fen', fen)
+        if (result?.solution) {
+            searchParams.set('sol', btoa(JSON.stringify(formatSolution(result.solution))))
+        }
+        setRuleParams(searchParams, rules)
+        return `/double-strike?${searchParams.toString()}`
+    }
+
+    const playPosition = () => {
+        plausibleEvent('double-strike:editor-play')
+        navigate(playPath())
+    }
+
+    const sharePosition = () => {
+        navigator.clipboard.writeText(`${window.location.origin}${playPath()}`)
+        notifications.show({
+            message: 'Link copied to clipboard',
+            color: 'blue',
+        })
+        plausibleEvent('double-strike:editor-share')
+    }
+
+    return (
+        <Center
+            w="100vw"
+            h="auto"
+            mt={{
+                base: 'xs',
+                md: rem(40),
+            }}
+        >
+            <Stack w={{ base: '92%', md: '84%' }}>
+                <Grid justify="center">
+                    <Grid.Col span={{ base: 12, md: 5 }}>
+                        <Group gap="xs" h={36}>
+                            <IconPencil size={32} />
+                            <Title order={2}>Editor</Title>
+                        </Group>
+                    </Grid.Col>
+                    <Grid.Col span={{ base: 12, md: 4 }}>
+                        <DoubleStrikeModes />
+                    </Grid.Col>
+                </Grid>
+                <ChessboardDnDProvider>
+                    <Grid justify="center">
+                        <Grid.Col span={{ base: 12, md: 5 }}>
+                            <Box>
+                                <MyChessboard
+                                    id={EDITOR_ID}
+                                    position={fen}
+                                    onPieceDrop={onPieceDrop}
+                                    onSparePieceDrop={onSparePieceDrop}
+                                    onPieceDropOffBoard={sourceSquare => setSquare(sourceSquare, null)}
+                                    dropOffBoardAction="trash"
+                                    onSquareClick={onSquareClick}
+                                    boardOrientation={orientation}
+                                    animationDuration={0}
+                                />
+                            </Box>
+                        </Grid.Col>
+                        <Grid.Col span={{ base: 12, md: 4 }}>
+                            <Stack gap="md">
+                                <Text size="sm" c="dimmed">
+                                    Drag pieces onto the board, or pick one and click squares. Drag a piece off the
+                                    board to remove it.
+                                </Text>
+                                {colors.map(color => (
+                                    <Group key={color} gap={4}>
+                                        {PALETTE.map(type => {
+                                            const isSelected = tool?.type === type && tool.color === color
+                                            return (
+                                                <Box
+                                                    key={type}
+                                                    onClick={() => setTool({ type, color })}
+                                                    style={{
+                                                        cursor: 'pointer',
+                                                        borderRadius: rem(4),
+                                                        outline: isSelected
+                                                            ? '2px solid var(--mantine-color-blue-5)'
+                                                            : undefined,
+                                                    }}
+                                                >
+                                                    <SparePiece
+                                                        piece={`${color}${type}` as Piece}
+                                                        width={PALETTE_PIECE_WIDTH}
+                                                        dndId={EDITOR_ID}
+                                                    />
+                                                </Box>
+                                            )
+                                        })}
+                                    </Group>
+                                ))}
+                                <Group gap="xs">
+                                    <ActionIcon
+                                        variant={tool === null ? 'filled' : 'subtle'}
+                                        size="xl"
+                                        onClick={() => setTool(null)}
+                                        title="Remove pieces"
+                                    >
+                                        <IconEraser />
+                                    </ActionIcon>
+                                    <ActionIcon
+                                        variant="subtle"
+                                        size="xl"
+                                        onClick={() => setBoard(emptyEditorBoard())}
+                                        title="Clear board"
+                                    >
+                                        <IconTrash />
+                                    </ActionIcon>
+                                    <ActionIcon
+                                        variant="subtle"
+                                        size="xl"
+                                        onClick={() => setOrientation(orientation === 'white' ? 'black' : 'white')}
+                                        title="Flip board"
+                                    >
+                                        <IconArrowsUpDown />
+                                    </ActionIcon>
+                                </Group>
+                                <VariantRulesControls rules={rules} onChange={setRules} />
+                                {errors.length > 0 && (
+                                    <Alert color="red" title="Invalid position">
+                                        {errors.map(error => (
+                                            <Text key={error} size="sm">
+                                                {error}
+                                            </Text>
+                                        ))}
+                                    </Alert>
+                                )}
+                                {result && !result.solvable && (
+                                    <Alert color={result.complete ? 'red' : 'yellow'} title="Not playable">
+                                        <Text size="sm">
+                                            {result.complete
+                                                ? 'This position cannot be solved.'
+                                                : 'This position is too large to check for a solution. Try removing some pieces.'}
+                                        </Text>
+                                    </Alert>
+                                )}
+                                {isChecking && <Text c="dimmed">Checking the position...</Text>}
+                                {isSolvable && <Text c="green">This position can be solved.</Text>}
+                                <Group>
+                                    <Button size="md" onClick={playPosition} disabled={!isSolvable}>
+                                        Play
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        size="md"
+                                        leftSection={<IconShare size={20} />}
+                                        onClick={sharePosition}
+                                        disabled={!isSolvable}
+                                    >
+                                        Copy Link
+                                    </Button>
+                                </Group>
+                            </Stack>
+                        </Grid.Col>
+                    </Grid>
+                </ChessboardDnDProvider>
+            </Stack>
+        </Center>
+    )
+}
@@ -0,0 +1,18 @@
+import { SegmentedControl } from '@mantine/core'
+import { useNavigate, useLocation } from 'react-router-dom'
+
+const MODES = [
+    { label: 'Classic', value: '/double-strike' },
+    { label: 'Rush', value: '/double-strike/rush' },
+    { label: 'Survival', value: '/double-strike/survival' },
+    { label: 'Daily', value: '/double-strike/daily' },
+    { label: 'Race', value: '/double-strike/race' },
+    { label: 'Editor', value: '/double-strike/editor' },
+]
+
+export function DoubleStrikeModes() {
+    const navigate = useNavigate()
+    const location = useLocation()
+
+    return <SegmentedControl value={location.pathname} onChange={path => navigate(path)} data={MODES} fullWidth />
+}
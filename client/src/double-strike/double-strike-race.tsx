@@ -0,0 +1,314 @@
+import { useState, useEffect, useRef } from 'react'
+import {
+    Badge,
+    Box,
+    Button,
+    Center,
+    Grid,
+    Group,
+    SegmentedControl,
+    SimpleGrid,
+    Stack,
+    Text,
+    TextInput,
+    Title,
+    rem,
+} from '@mantine/core'
+import { IconSwords } from '@tabler/icons-react'
+import { notifications } from '@mantine/notifications'
+import { useDocumentTitle } from '@mantine/hooks'
+import { plausibleEvent } from '../plausible'
+import { createSound, playSound } from '../utils/sound'
+import { DoubleStrikeModes } from './double-strike-modes'
+import { GeneratedPuzzle } from './generate-puzzle'
+import { generatePuzzleInWorker, isAbortError } from './puzzle-worker'
+import { DEFAULT_QUALITY_RULES } from './quality'
+import {
+    HINT_PENALTY_SECONDS,
+    RESET_PENALTY_SECONDS,
+    RaceFormat,
+    RaceResult,
+    racePenalty,
+    raceTotal,
+    raceWinner,
+} from './race'
+import { RacePlayer } from './race-player'
+import { SolutionList } from './solution-list'
+
+type Phase = 'setup' | 'preparing' | 'handoff' | 'playing' | 'finished'
+
+const PIECE_COUNTS = [6, 9, 12, 15]
+const PLAYER_NAMES_KEY = 'doubleStrikeRacePlayers'
+
+const winSound = createSound('/win.wav')
+
+const loadPlayerNames = (): [string, string] => {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(PLAYER_NAMES_KEY) ?? 'null')
+        if (Array.isArray(parsed) && parsed.length === 2 && parsed.every(name => typeof name === 'string')) {
+            return [parsed[0], parsed[1]]
+        }
+    } catch (e) {
+        console.error('Failed to parse stored race players')
+    }
+    return ['Player 1', 'Player 2']
+}
+
+// Format time as MM:SS
+const formatTime = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60)
+    const remainingSeconds = seconds % 60
+    return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`
+}
+
+/*
+    Two players race on the same puzzle on one device, either on boards side by side or one after
+    the other with the device passed between turns. The lowest time after penalties wins.
+*/
+export function DoubleStrikeRace() {
+    useDocumentTitle('Double Strike Race | ChessPrac')
+    const [phase, setPhase] = useState<Phase>('setup')
+    const [format, setFormat] = useState<RaceFormat>('split')
+    const [pieceCount, setPieceCount] = useState(PIECE_COUNTS[1])
+    const [names, setNames] = useState(loadPlayerNames)
+    const [puzzle, setPuzzle] = useState<GeneratedPuzzle | null>(null)
+    const [results, setResults] = useState<(RaceResult | null)[]>([null, null])
+    // Whose turn it is when taking turns
+    const [turn, setTurn] = useState(0)
+    const generation = useRef<AbortController | null>(null)
+
+    const playerName = (index: number) => names[index].trim() || `Player ${index + 1}`
+
+    useEffect(() => {
+        localStorage.setItem(PLAYER_NAMES_KEY, JSON.stringify(names))
+    }, [names])
+
+    // Stop generating when leaving the page
+    useEffect(() => {
+        return () => generation.current?.abort()
+    }, [])
+
+    const startRace = async (racePuzzle: GeneratedPuzzle | null) => {
+        setResults([null, null])
+        setTurn(0)
+
+        if (!racePuzzle) {
+            generation.current?.abort()
+            const controller = new AbortController()
+            generation.current = controller
+            setPhase('preparing')
+            try {
+                racePuzzle = await generatePuzzleInWorker(
+                    { pieceCount, quality: DEFAULT_QUALITY_RULES },
+                    { signal: controller.signal },
+                )
+            } catch (err) {
+                if (isAbortError(err)) return
+                setPhase('setup')
+                plausibleEvent('double-strike:generation-failed')
+                notifications.show({
+                    message: 'Puzzle generation failed. Please try again.',
+                    color: 'red',
+                })
+                return
+            }
+        }
+
+        setPuzzle(racePuzzle)
+        setPhase(format === 'turns' ? 'handoff' : 'playing')
+        plausibleEvent('double-strike:race-start', { props: { format, pieces: racePuzzle.pieceCount } })
+    }
+
+    // A functional update, since both players can finish in the same moment on split boards
+    const finishPlayer = (index: number, result: RaceResult) => {
+        setResults(current => current.map((previous, i) => (i === index ? result : previous)))
+        if (format === 'turns' && index === 0) {
+            setTurn(1)
+            setPhase('handoff')
+        }
+    }
+
+    const finished = results.every(result => result !== null) ? (results as RaceResult[]) : null
+    const winner = finished && raceWinner(finished)
+
+    useEffect(() => {
+        if (phase !== 'playing' || !finished) return
+        setPhase('finished')
+        playSound(winSound)
+        plausibleEvent('double-strike:race-finish', { props: { format } })
+    }, [results])
+
+    return (
+        <Center
+            w="100vw"
+            h="auto"
+            mt={{
+                base: 'xs',
+                md: rem(40),
+            }}
+        >
+            <Stack w={{ base: '92%', md: '84%' }}>
+                <Grid justify="center">
+                    <Grid.Col span={{ base: 12, md: 5 }}>
+                        <Group gap="xs" h={36}>
+                            <IconSwords size={32} />
+                            <Title order={2}>Race</Title>
+                        </Group>
+                    </Grid.Col>
+                    <Grid.Col span={{ base: 12, md: 4 }}>
+                        <DoubleStrikeModes />
+                    </Grid.Col>
+                </Grid>
+
+                {(phase === 'setup' || phase === 'preparing') && (
+                    <Grid justify="center">
+                        <Grid.Col span={{ base: 12, md: 9 }}>
+                            <Stack gap="md" maw={480}>
+                                <Text>Two players solve the same puzzle. The lowest time wins.</Text>
+                                <Text size="sm" c="dimmed">
+                                    Each reset adds {RESET_PENALTY_SECONDS} seconds and each hint {HINT_PENALTY_SECONDS}{' '}
+                                    seconds.
+                                </Text>
+                                <Group grow>
+                                    {names.map((name, index) => (
+                                        <TextInput
+                                            key={index}
+                                            label={`Player ${index + 1}`}
+                                            value={name}
+                                            onChange={event =>
+                                                setNames(
+                                                    names.map((current, i) =>
+                                                        i === index ? event.currentTarget.value : current,
+                                                    ) as [string, string],
+                                                )
+                                            }
+                                            maxLength={20}
+                                        />
+                                    ))}
+                                </Group>
+                                <Box>
+                                    <Text size={rem(18)} mb={8}>
+                                        Format
+                                    </Text>
+                                    <SegmentedControl
+                                        value={format}
+                                        onChange={value => setFormat(value as RaceFormat)}
+                                        data={[
+                                            { label: 'Side by side', value: 'split' },
+                                            { label: 'Take turns', value: 'turns' },
+                                        ]}
+                                        fullWidth
+                                    />
+                                </Box>
+                                <Box>
+                                    <Text size={rem(18)} mb={8}>
+                                        Pieces
+                                    </Text>
+                                    <SegmentedControl
+                                        value={pieceCount.toString()}
+                                        onChange={value => setPieceCount(parseInt(value))}
+                                        data={PIECE_COUNTS.map(count => count.toString())}
+                                        fullWidth
+                                    />
+                                </Box>
+                                <Box>
+                                    <Button size="md" onClick={() => startRace(null)} loading={phase === 'preparing'}>
+                                        Start
+                                    </Button>
+                                </Box>
+                            </Stack>
+                        </Grid.Col>
+                    </Grid>
+                )}
+
+                {phase === 'handoff' && (
+                    <Grid justify="center">
+                        <Grid.Col span={{ base: 12, md: 9 }}>
+                            <Stack gap="md" align="center" py="xl">
+                                {turn === 1 && (
+                                    <Text c="dimmed">{playerName(0)} is done, their time stays hidden.</Text>
+                                )}
+                                <Title order={3}>Pass the device to {playerName(turn)}</Title>
+                                <Button size="md" onClick={() => setPhase('playing')}>
+                                    I'm ready
+                                </Button>
+                            </Stack>
+                        </Grid.Col>
+                    </Grid>
+                )}
+
+                {phase === 'playing' && puzzle && format === 'split' && (
+                    <SimpleGrid cols={{ base: 1, md: 2 }} spacing="xl">
+                        {names.map((_, index) => (
+                            <RacePlayer
+                                key={index}
+                                name={playerName(index)}
+                                puzzle={puzzle}
+                                onFinish={result => finishPlayer(index, result)}
+                            />
+                        ))}
+                    </SimpleGrid>
+                )}
+
+                {phase === 'playing' && puzzle && format === 'turns' && (
+                    <Grid justify="center">
+                        <Grid.Col span={{ base: 12, md: 5 }}>
+                            <RacePlayer
+                                key={turn}
+                                name={playerName(turn)}
+                                puzzle={puzzle}
+                                onFinish={result => finishPlayer(turn, result)}
+                            />
+                        </Grid.Col>
+                    </Grid>
+                )}
+
+                {phase === 'finished' && finished && (
+                    <Stack gap="md">
+                        <Title order={2} ta="center">
+                            {winner === null ? "It's a tie!" : `${playerName(winner)} wins! 🎉`}
+                        </Title>
+                        <SimpleGrid cols={{ base: 1, md: 2 }} spacing="xl">
+                            {finished.map((result, index) => (
+                                <Stack key={index} gap="xs">
+                                    <Group justify="space-between">
+                                        <Title order={3}>{playerName(index)}</Title>
+                                        {index === winner && (
+                                            <Badge size="lg" color="yellow">
+                                                Winner
+                                            </Badge>
+                                        )}
+                                    </Group>
+                                    {result.solved ? (
+                                        <Text>
+                                            {formatTime(result.seconds)} + {racePenalty(result)}s penalty ={' '}
+                                            <b>{formatTime(raceTotal(result))}</b>
+                                        </Text>
+                                    ) : (
+                                        <Text c="red">Gave up after {formatTime(result.seconds)}</Text>
+                                    )}
+                                    <Text size="sm" c="dimmed">
+                                        {result.resets} {result.resets === 1 ? 'reset' : 'resets'}, {result.hints}{' '}
+                                        {result.hints === 1 ? 'hint' : 'hints'}
+                                    </Text>
+                                    <SolutionList solution={result.moves} title="Moves" />
+                                </Stack>
+                            ))}
+                        </SimpleGrid>
+                        <Group justify="center">
+                            <Button size="md" variant="outline" onClick={() => startRace(puzzle)}>
+                                Rematch
+                            </Button>
+                            <Button size="md" onClick={() => startRace(null)}>
+                                New Puzzle
+                            </Button>
+                            <Button size="md" variant="subtle" onClick={() => setPhase('setup')}>
+                                Change Settings
+                            </Button>
+                        </Group>
+                    </Stack>
+                )}
+            </Stack>
+        </Center>
+    )
+}
@@ -0,0 +1,414 @@
+import { useState, useEffect, useRef } from 'react'
+import {
+    Alert,
+    Badge,
+    Button,
+    Stack,
+    Text,
+    Group,
+    Box,
+    Grid,
+    Center,
+    rem,
+    Title,
+    SegmentedControl,
+} from '@mantine/core'
+import { IconStopwatch } from '@tabler/icons-react'
+import { notifications } from '@mantine/notifications'
+import { useDocumentTitle } from '@mantine/hooks'
+import { MyChessboard } from '../components/my-chessboard'
+import { plausibleEvent } from '../plausible'
+import { createSound, playSound } from '../utils/sound'
+import { DoubleStrikeModes } from './double-strike-modes'
+import { GeneratedPuzzle } from './generate-puzzle'
+import { generatePuzzleInWorker, isAbortError } from './puzzle-worker'
+import { DEFAULT_QUALITY_RULES } from './quality'
+import { fenToBoard, useDoubleStrikeGame } from './use-double-strike-game'
+
+type Phase = 'setup' | 'preparing' | 'playing' | 'finished'
+
+const DURATIONS = [180, 300]
+const QUEUE_SIZE = 3
+const SKIP_COUNT = 3
+const START_PIECE_COUNT = 4
+const RUSH_MAX_PIECE_COUNT = 16
+const BEST_SCORES_KEY = 'doubleStrikeRushBest'
+// Tries at generating the next puzzle of a run before the run is ended
+const SERVE_ATTEMPTS = 3
+
+const successSound = createSound('/success.mp3')
+const winSound = createSound('/win.wav')
+
+// Each puzzle served has one more piece than the last, up to the cap
+const pieceCountFor = (index: number) => Math.min(RUSH_MAX_PIECE_COUNT, START_PIECE_COUNT + index)
+
+const loadBestScores = (): Record<string, number> => {
+    try {
+        return JSON.parse(localStorage.getItem(BEST_SCORES_KEY) ?? '{}')
+    } catch (e) {
+        console.error('Failed to parse stored rush scores')
+        return {}
+    }
+}
+
+// Cancelled runs reject with an AbortError, which is expected
+const logGenerationError = (err: unknown) => {
+    if (!isAbortError(err)) console.error('Failed to generate rush puzzle', err)
+}
+
+// Format time as MM:SS
+const formatTime = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60)
+    const remainingSeconds = seconds % 60
+    return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`
+}
+
+export function DoubleStrikeRush() {
+    useDocumentTitle('Double Strike Rush | ChessPrac')
+    const {
+        remainingPieces,
+        positionFen,
+        exhaustedSquares,
+        strikePips,
+        solvability,
+        isDeadEnd,
+        historyIndex,
+        resetGame,
+        undoToLastSolvable,
+        isUndoingToSolvable,
+        onPieceDrop,
+        onPromotionPieceSelect,
+        onPromotionCheck,
+        isDraggablePiece,
+    } = useDoubleStrikeGame()
+    const [phase, setPhase] = useState<Phase>('setup')
+    const [duration, setDuration] = useState(DURATIONS[0])
+    const [timeLeft, setTimeLeft] = useState(DURATIONS[0])
+    const [currentPuzzle, setCurrentPuzzle] = useState<GeneratedPuzzle | null>(null)
+    const [solvedCount, setSolvedCount] = useState(0)
+    const [skipsLeft, setSkipsLeft] = useState(SKIP_COUNT)
+    // True while the next puzzle is on its way, when it wasn't queued it is still generating
+    const [isServing, setIsServing] = useState(false)
+    // Set when the next puzzle couldn't be generated, which ends the run like the clock running out
+    const [generationFailed, setGenerationFailed] = useState(false)
+    const [bestScores, setBestScores] = useState(loadBestScores)
+    const [isNewBest, setIsNewBest] = useState(false)
+    const queue = useRef<GeneratedPuzzle[]>([])
+    const generatedCount = useRef(0)
+    const isFilling = useRef(false)
+    // Incremented on every new run so that puzzles generated for an old run are discarded
+    const runId = useRef(0)
+    // Aborted when a run ends to stop its workers
+    const runController = useRef(new AbortController())
+
+    const bestScore = bestScores[duration] ?? 0
+
+    const nextPuzzle = async (run: number): Promise<GeneratedPuzzle> => {
+        const pieceCount = pieceCountFor(generatedCount.current)
+        const puzzle = await generatePuzzleInWorker(
+            { pieceCount, quality: DEFAULT_QUALITY_RULES },
+            { signal: runController.current.signal },
+        )
+        if (run === runId.current) generatedCount.current++
+        return puzzle
+    }
+
+    const fillQueue = async () => {
+        if (isFilling.current) return
+        isFilling.current = true
+        const run = runId.current
+        try {
+            while (run === runId.current && queue.current.length < QUEUE_SIZE) {
+                const puzzle = await nextPuzzle(run)
+                if (run !== runId.current) return
+                queue.current.push(puzzle)
+            }
+        } finally {
+            // endRun already cleared the flag for a run that was left
+            if (run === runId.current) isFilling.current = false
+        }
+    }
+
+    const servePuzzle = async () => {
+        const run = runId.current
+        setIsServing(true)
+        try {
+            const puzzle = queue.current.shift() ?? (await nextPuzzle(run))
+            if (run !== runId.current) return
+
+            setCurrentPuzzle(puzzle)
+            resetGame(fenToBoard(puzzle.fen), puzzle.solution)
+            fillQueue().catch(logGenerationError)
+        } finally {
+            if (run === runId.current) setIsServing(false)
+        }
+    }
+
+    // Serves the next puzzle while the clock runs, retrying when it fails and ending the run after SERVE_ATTEMPTS
+    const serveNextPuzzle = async () => {
+        const run = runId.current
+        for (let attempt = 1; attempt <= SERVE_ATTEMPTS; attempt++) {
+            try {
+                await servePuzzle()
+                return
+            } catch (err) {
+                if (isAbortError(err) || run !== runId.current) return
+                console.error('Failed to generate rush puzzle', err)
+            }
+            if (attempt < SERVE_ATTEMPTS) {
+                notifications.show({ message: 'The next puzzle failed to generate, trying again.', color: 'yellow' })
+            }
+        }
+        if (run !== runId.current) return
+        notifications.show({ message: 'Puzzle generation keeps failing, so the rush has ended.', color: 'red' })
+        setGenerationFailed(true)
+    }
+
+    const endRun = () => {
+        runId.current++
+        runController.current.abort()
+        isFilling.current = false
+        setIsServing(false)
+    }
+
+    const startRush = async () => {
+        endRun()
+        runController.current = new AbortController()
+        queue.current = []
+        generatedCount.current = 0
+        setSolvedCount(0)
+        setSkipsLeft(SKIP_COUNT)
+        setIsNewBest(false)
+        setGenerationFailed(false)
+        setTimeLeft(duration)
+        setPhase('preparing')
+
+        try {
+            // Generate the first puzzles before the clock starts
+            await fillQueue()
+            await servePuzzle()
+            setPhase('playing')
+            plausibleEvent('double-strike:rush-start', { props: { duration } })
+        } catch (err) {
+            if (isAbortError(err)) return
+            setPhase('setup')
+            notifications.show({
+                message: 'Puzzle generation failed. Please try again.',
+                color: 'red',
+            })
+        }
+    }
+
+    const finishRush = () => {
+        endRun()
+        setPhase('finished')
+        playSound(winSound)
+        plausibleEvent('double-strike:rush-finish', { props: { duration, solved: solvedCount } })
+
+        if (solvedCount > bestScore) {
+            const newBestScores = { ...bestScores, [duration]: solvedCount }
+            localStorage.setItem(BEST_SCORES_KEY, JSON.stringify(newBestScores))
+            setBestScores(newBestScores)
+            setIsNewBest(true)
+        }
+    }
+
+    const skipPuzzle = () => {
+        if (isServing || skipsLeft === 0) return
+        setSkipsLeft(left => left - 1)
+        serveNextPuzzle()
+        plausibleEvent('double-strike:rush-skip')
+    }
+
+    // Countdown clock
+    useEffect(() => {
+        if (phase !== 'playing') return
+
+        const endTime = Date.now() + duration * 1000
+        const intervalId = window.setInterval(() => {
+            setTimeLeft(Math.max(0, Math.ceil((endTime - Date.now()) / 1000)))
+        }, 100)
+
+        return () => clearInterval(intervalId)
+    }, [phase])
+
+    useEffect(() => {
+        if (phase === 'playing' && (timeLeft === 0 || generationFailed)) {
+            finishRush()
+        }
+    }, [timeLeft, generationFailed, phase])
+
+    // Move on as soon as a puzzle is solved
+    useEffect(() => {
+        if (phase === 'playing' && remainingPieces === 1) {
+            playSound(successSound)
+            setSolvedCount(solvedCount + 1)
+            serveNextPuzzle()
+        }
+    }, [remainingPieces, phase])
+
+    // Stop generating puzzles for a run that was left
+    useEffect(() => {
+        return () => endRun()
+    }, [])
+
+    const isPlaying = phase === 'playing'
+
+    return (
+        <Center
+            w="100vw"
+            h="auto"
+            mt={{
+                base: 'xs',
+                md: rem(40),
+            }}
+        >
+            <Stack w={{ base: '92%', md: '84%' }}>
+                <Grid justify="center">
+                    <Grid.Col span={{ base: 12, md: 5 }}>
+                        <Group gap="xs" h={36}>
+                            <IconStopwatch size={32} />
+                            <Title order={2}>Rush</Title>
+                        </Group>
+                    </Grid.Col>
+                    <Grid.Col span={{ base: 12, md: 4 }}>
+                        <DoubleStrikeModes />
+                    </Grid.Col>
+                </Grid>
+                <Grid justify="center">
+                    <Grid.Col span={{ base: 12, md: 5 }}>
+                        <Box>
+                            <MyChessboard
+                                position={isPlaying ? positionFen : ''}
+                                onPieceDrop={onPieceDrop}
+                                onPromotionPieceSelect={onPromotionPieceSelect}
+                                onPromotionCheck={onPromotionCheck}
+                                promotionDialogVariant="vertical"
+                                boardOrientation="white"
+                                animationDuration={0}
+                                isDraggablePiece={props => isPlaying && isDraggablePiece(props)}
+                                fadedPieces={isPlaying ? exhaustedSquares : undefined}
+                                piecePips={isPlaying ? strikePips : undefined}
+                            />
+                        </Box>
+                    </Grid.Col>
+                    <Grid.Col span={{ base: 12, md: 4 }}>
+                        {(phase === 'setup' || phase === 'preparing') && (
+                            <Stack gap="md">
+                                <Text>Solve as many puzzles as you can before the clock runs out.</Text>
+                                <Text size="sm" c="dimmed">
+                                    Puzzles get bigger as you go. You can skip {SKIP_COUNT} puzzles.
+                                </Text>
+                                <SegmentedControl
+                                    value={duration.toString()}
+                                    onChange={value => {
+                                        setDuration(parseInt(value))
+                                        setTimeLeft(parseInt(value))
+                                    }}
+                                    data={DURATIONS.map(seconds => ({
+                                        label: `${seconds / 60} minutes`,
+                                        value: seconds.toString(),
+                                    }))}
+                                    disabled={phase === 'preparing'}
+                                />
+                                <Text>Best: {bestScore}</Text>
+                                <Box>
+                                    <Button size="md" onClick={startRush} loading={phase === 'preparing'}>
+                                        Start
+                                    </Button>
+                                </Box>
+                            </Stack>
+                        )}
+
+                        {isPlaying && (
+                            <Stack gap="md">
+                                <Text
+                                    size={rem(60)}
+                                    fw={700}
+                                    style={{ fontFamily: 'monospace' }}
+                                    c={timeLeft <= 10 ? 'red' : undefined}
+                                >
+                                    {formatTime(timeLeft)}
+                                </Text>
+                                <Group>
+                                    <Badge size="lg" variant="light" color="green">
+                                        Solved: {solvedCount}
+                                    </Badge>
+                                    <Badge size="lg" variant="light" color="gray">
+                                        {currentPuzzle?.pieceCount} pieces
+                                    </Badge>
+                                </Group>
+                                {isDeadEnd && (
+                                    <Alert color="red" title="Dead end">
+                                        <Text size="sm" mb={historyIndex > 0 ? 'sm' : 0}>
+                                            This position can no longer be solved.
+                                        </Text>
+                                        {historyIndex > 0 && (
+                                            <Button
+                                                color="red"
+                                                size="sm"
+                                                onClick={undoToLastSolvable}
+                                                loading={isUndoingToSolvable}
+                                            >
+                                                Undo to last solvable position
+                                            </Button>
+                                        )}
+                                    </Alert>
+                                )}
+                                {solvability === 'unknown' && (
+                                    <Text size="sm" c="dimmed">
+                                        This position is too large to check whether it can still be solved.
+                                    </Text>
+                                )}
+                                <Group>
+                                    <Button
+                                        variant="outline"
+                                        size="md"
+                                        onClick={() =>
+                                            currentPuzzle &&
+                                            resetGame(fenToBoard(currentPuzzle.fen), currentPuzzle.solution)
+                                        }
+                                    >
+                                        Reset Puzzle
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        size="md"
+                                        onClick={skipPuzzle}
+                                        disabled={skipsLeft === 0 || isServing}
+                                    >
+                                        Skip ({skipsLeft})
+                                    </Button>
+                                </Group>
+                            </Stack>
+                        )}
+
+                        {phase === 'finished' && (
+                            <Stack gap="md">
+                                <Text size="xl" fw={700}>
+                                    {generationFailed ? 'Rush ended' : "Time's up!"}
+                                </Text>
+                                <Text size={rem(60)} fw={700} c="green">
+                                    {solvedCount}
+                                </Text>
+                                <Text>{solvedCount === 1 ? 'puzzle solved' : 'puzzles solved'}</Text>
+                                {isNewBest ? (
+                                    <Text fw={700} c="yellow">
+                                        New best score! 🎉
+                                    </Text>
+                                ) : (
+                                    <Text>Best: {bestScore}</Text>
+                                )}
+                                <Box>
+                                    <Button size="md" onClick={startRush}>
+                                        Play Again
+                                    </Button>
+                                </Box>
+                            </Stack>
+                        )}
+                    </Grid.Col>
+                </Grid>
+            </Stack>
+        </Center>
+    )
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_RULES, VariantRules } from './double-strike'
+import { boardFromFen, getLegalCaptures, solveDoubleStrike } from './double-strike-solver'
+import { formatSolution } from './notation'
+
+const withRules = (rules: Partial<VariantRules>): VariantRules => ({ ...DEFAULT_RULES, ...rules })
+
+describe('solveDoubleStrike', () => {
+    // Rooks on a8, a4 and a1, where the outer rooks only see each other once the middle one has moved
+    const rooks = boardFromFen('R7/8/8/8/R7/8/8/R7 w - - 0 1')
+
+    it('counts every capture sequence that leaves one piece', () => {
+        const result = solveDoubleStrike(rooks)
+        expect(result).toMatchObject({ solvable: true, solutionCount: 8, complete: true })
+        expect(formatSolution(result.solution!, 8)).toEqual(['Ra8xa4', 'Ra4xa1'])
+    })
+
+    it('stops counting at maxSolutions', () => {
+        expect(solveDoubleStrike(rooks, { maxSolutions: 3 }).solutionCount).toBe(3)
+    })
+
+    it('never captures the king', () => {
+        const result = solveDoubleStrike(boardFromFen('K7/8/8/8/8/8/8/R7 w - - 0 1'))
+        expect(result).toMatchObject({ solvable: false, solution: null, complete: true })
+    })
+
+    it('reports an incomplete result when the budget runs out', () => {
+        const result = solveDoubleStrike(rooks, { maxStates: 1 })
+        expect(result.complete).toBe(false)
+        expect(result.solutionCount).toBeLessThan(8)
+    })
+
+    it('counts every promotion as its own solution', () => {
+        const result = solveDoubleStrike(boardFromFen('3N4/4P3/8/8/8/8/8/8 w - - 0 1'))
+        expect(result.solutionCount).toBe(4)
+    })
+
+    it('limits how often each piece moves', () => {
+        // The rook on b1 has to take both knights
+        const board = boardFromFen('8/8/8/8/8/8/8/NR5N w - - 0 1')
+        expect(solveDoubleStrike(board).solvable).toBe(true)
+        expect(solveDoubleStrike(board, { rules: withRules({ strikeLimit: 1 }) }).solvable).toBe(false)
+    })
+
+    it('only lets pieces take the other color with the opposite rule', () => {
+        const rules = withRules({ colorRule: 'opposite' })
+        expect(solveDoubleStrike(boardFromFen('R7/8/8/8/8/8/8/R7 w - - 0 1'), { rules }).solvable).toBe(false)
+        expect(solveDoubleStrike(boardFromFen('r7/8/8/8/8/8/8/R7 w - - 0 1'), { rules }).solutionCount).toBe(2)
+    })
+
+    it('makes the sides take turns with the alternate rule', () => {
+        const rules = withRules({ colorRule: 'alternate' })
+        const board = boardFromFen('r7/8/8/8/8/8/8/R7 w - - 0 1')
+        expect(formatSolution(solveDoubleStrike(board, { rules }).solution!, 8)).toEqual(['Ra1xa8'])
+        expect(formatSolution(solveDoubleStrike(board, { rules, sideToMove: 'b' }).solution!, 8)).toEqual(['Ra8xa1'])
+    })
+})
+
+describe('getLegalCaptures', () => {
+    it('offers every promotion piece when a pawn captures onto the last rank', () => {
+        const captures = getLegalCaptures(boardFromFen('3N4/4P3/8/8/8/8/8/8 w - - 0 1'))
+        expect(captures.map(move => move.piece).sort()).toEqual(['B', 'N', 'Q', 'R'])
+        expect(captures.every(move => move.wasPromotion)).toBe(true)
+    })
+
+    it('skips pieces that used up their strikes', () => {
+        const board = boardFromFen('r7/8/8/8/8/8/8/R7 w - - 0 1')
+        board[7][0]!.moves = DEFAULT_RULES.strikeLimit
+        expect(formatSolution(getLegalCaptures(board), 8)).toEqual(['Ra8xa1'])
+    })
+})
@@ -0,0 +1,213 @@
+import {
+    DEFAULT_RULES,
+    Move,
+    PieceColor,
+    Position,
+    SimplePiece,
+    UNLIMITED_STRIKES,
+    VariantRules,
+    oppositeColor,
+    parseFenRows,
+    pieceToFenChar,
+} from './double-strike'
+import { PROMOTION_PIECES, canCapture, isPromotion } from './movement'
+
+/*
+    Exhaustive solver for Double Strike positions.
+    Searches every capture sequence under the variant's rules (every move captures, pieces move at most
+    the strike limit, kings cannot be captured, colors where they apply) and counts the distinct
+    sequences that leave a single piece on the board.
+    Positions are memoized by piece placement and move counts, so transpositions are only searched once.
+*/
+
+export type SolverPiece = {
+    id: string
+    type: SimplePiece
+    color: PieceColor
+    moves: number
+}
+
+export type SolverBoard = (SolverPiece | null)[][]
+
+export type SolveOptions = {
+    // Stop counting once this many solutions are found (1 is a fast solvability check)
+    maxSolutions?: number
+    // Give up after visiting this many distinct positions
+    maxStates?: number
+    // Defaults to the standard single color Double Strike rules
+    rules?: VariantRules
+    // Who moves first from this position when sides alternate
+    sideToMove?: PieceColor
+}
+
+export type SolveResult = {
+    solvable: boolean
+    solutionCount: number
+    // The first solution in board order (top-left to bottom-right), null if unsolvable
+    solution: Move[] | null
+    // False when the search budget ran out before the position was fully explored
+    complete: boolean
+}
+
+// Messages posted to and by solve-position.worker.ts
+export type SolveWorkerRequest = {
+    board: SolverBoard
+    options: SolveOptions
+}
+
+export type SolveWorkerMessage = { type: 'done'; result: SolveResult } | { type: 'error'; message: string }
+
+const DEFAULT_MAX_STATES = 100_000
+
+export function boardFromFen(fen: string): SolverBoard {
+    let pieceCounter = 0
+    return parseFenRows(fen).map(row =>
+        row.map(cell => (cell ? { id: `piece_${pieceCounter++}`, ...cell, moves: 0 } : null)),
+    )
+}
+
+export function getLegalCaptures(
+    board: SolverBoard,
+    { strikeLimit, colorRule }: VariantRules = DEFAULT_RULES,
+    sideToMove: PieceColor = 'w',
+): Move[] {
+    const occupied: Position[] = []
+    board.forEach((row, y) =>
+        row.forEach((cell, x) => {
+            if (cell) occupied.push({ x, y })
+        }),
+    )
+
+    const captures: Move[] = []
+    for (const from of occupied) {
+        const mover = board[from.y][from.x]!
+        if (mover.moves >= strikeLimit) continue
+        if (colorRule === 'alternate' && mover.color !== sideToMove) continue
+
+        for (const to of occupied) {
+            if (!canCapture(from, to, board, colorRule)) continue
+            const target = board[to.y][to.x]!
+
+            if (isPromotion(mover, to, board.length)) {
+                for (const promotion of PROMOTION_PIECES) {
+                    captures.push({
+                        from,
+                        to,
+                        captured: target.type,
+                        piece: promotion,
+                        color: mover.color,
+                        pieceId: mover.id,
+                        wasPromotion: true,
+                    })
+                }
+            } else {
+                captures.push({
+                    from,
+                    to,
+                    captured: target.type,
+                    piece: mover.type,
+                    color: mover.color,
+                    pieceId: mover.id,
+                })
+            }
+        }
+    }
+    return captures
+}
+
+// Applies the move in place and returns a function that reverts it
+function applyMove(board: SolverBoard, move: Move): () => void {
+    const mover = board[move.from.y][move.from.x]!
+    const target = board[move.to.y][move.to.x]
+    board[move.to.y][move.to.x] = { ...mover, type: move.piece, moves: mover.moves + 1 }
+    board[move.from.y][move.from.x] = null
+    return () => {
+        board[move.from.y][move.from.x] = mover
+        board[move.to.y][move.to.x] = target
+    }
+}
+
+// Move counts don't matter when pieces can move any number of times
+function boardKey(board: SolverBoard, strikeLimit: number): string {
+    const withMoves = strikeLimit !== UNLIMITED_STRIKES
+    return board
+        .map(row => row.map(cell => (cell ? `${pieceToFenChar(cell)}${withMoves ? cell.moves : ''}` : '.')).join(''))
+        .join('/')
+}
+
+// Every capture removes one piece, so the pieces must have enough moves left between them
+function hasEnoughMovesLeft(board: SolverBoard, pieceCount: number, strikeLimit: number): boolean {
+    let movesLeft = 0
+    for (const row of board) {
+        for (const cell of row) {
+            if (cell) movesLeft += Math.max(0, strikeLimit - cell.moves)
+        }
+    }
+    return movesLeft >= pieceCount - 1
+}
+
+export function solveDoubleStrike(board: SolverBoard, options: SolveOptions = {}): SolveResult {
+    const { maxSolutions = Infinity, maxStates = DEFAULT_MAX_STATES, rules = DEFAULT_RULES, sideToMove = 'w' } = options
+    const { strikeLimit } = rules
+    const work: SolverBoard = board.map(row => row.map(cell => (cell ? { ...cell } : null)))
+    const memo = new Map<string, number>()
+    let budgetExceeded = false
+
+    // Counts solutions from the current position, capped at maxSolutions. The side to move is
+    // left out of the memo key, every position with the same piece count has the same side to move.
+    const countSolutions = (pieceCount: number, side: PieceColor): number => {
+        if (pieceCount === 1) return 1
+
+        const key = boardKey(work, strikeLimit)
+        const cached = memo.get(key)
+        if (cached !== undefined) return cached
+        if (memo.size >= maxStates) {
+            budgetExceeded = true
+            return 0
+        }
+
+        let total = 0
+        if (hasEnoughMovesLeft(work, pieceCount, strikeLimit)) {
+            for (const move of getLegalCaptures(work, rules, side)) {
+                const undo = applyMove(work, move)
+                total += countSolutions(pieceCount - 1, oppositeColor(side))
+                undo()
+                if (total >= maxSolutions) {
+                    total = maxSolutions
+                    break
+                }
+            }
+        }
+
+        memo.set(key, total)
+        return total
+    }
+
+    const pieceCount = work.flat().filter(cell => cell !== null).length
+    if (pieceCount === 0) {
+        return { solvable: false, solutionCount: 0, solution: null, complete: true }
+    }
+
+    const solutionCount = countSolutions(pieceCount, sideToMove)
+    if (solutionCount === 0) {
+        return { solvable: false, solutionCount: 0, solution: null, complete: !budgetExceeded }
+    }
+
+    // Walk the memoized counts to recover the first solution
+    const solution: Move[] = []
+    let side = sideToMove
+    for (let remaining = pieceCount; remaining > 1; remaining--) {
+        const nextSide = oppositeColor(side)
+        const next = getLegalCaptures(work, rules, side).find(move => {
+            const undo = applyMove(work, move)
+            const solvable = countSolutions(remaining - 1, nextSide) > 0
+            undo()
+            return solvable
+        })!
+        applyMove(work, next)
+        solution.push(next)
+        side = nextSide
+    }
+
+    return { solvable: true, solutionCount, solution, complete: !budgetExceeded }
+}
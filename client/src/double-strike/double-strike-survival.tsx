@@ -0,0 +1,260 @@
+import { useState, useEffect, useRef } from 'react'
+import { Badge, Button, Stack, Text, Group, Box, Grid, Center, rem, Title } from '@mantine/core'
+import { IconHeartbeat } from '@tabler/icons-react'
+import { notifications } from '@mantine/notifications'
+import { useDocumentTitle } from '@mantine/hooks'
+import { MyChessboard } from '../components/my-chessboard'
+import { plausibleEvent } from '../plausible'
+import { createSound, playSound } from '../utils/sound'
+import { DEFAULT_RULES, MAX_PIECE_COUNT, MIN_PIECE_COUNT } from './double-strike'
+import { DoubleStrikeModes } from './double-strike-modes'
+import { GeneratedPuzzle } from './generate-puzzle'
+import { decodePuzzleCode } from './puzzle-code'
+import { DEFAULT_QUALITY_RULES } from './quality'
+import { generatePuzzleInWorker, isAbortError } from './puzzle-worker'
+import { SolutionList } from './solution-list'
+import { fenToBoard, useDoubleStrikeGame } from './use-double-strike-game'
+
+type Phase = 'loading' | 'playing' | 'over'
+
+// Persisted so a run survives reloads without giving a free new puzzle
+type SurvivalProgress = {
+    streak: number
+    bestStreak: number
+    puzzleCode: string | null
+}
+
+const PROGRESS_KEY = 'doubleStrikeSurvival'
+
+const successSound = createSound('/success.mp3')
+const failSound = createSound('/fail.wav')
+
+// The run hangs on the dead end check, so it may search further than in the other modes. Positions
+// that are still too large to decide are played on until fewer pieces are left and the check succeeds.
+const DEAD_END_MAX_STATES = 1_000_000
+
+// One more piece for every puzzle solved in a row
+const pieceCountFor = (streak: number) => Math.min(MAX_PIECE_COUNT, MIN_PIECE_COUNT + streak)
+
+const loadProgress = (): SurvivalProgress => {
+    const stored = localStorage.getItem(PROGRESS_KEY)
+    if (stored) {
+        try {
+            const parsed = JSON.parse(stored)
+            if (typeof parsed.streak === 'number' && typeof parsed.bestStreak === 'number') {
+                return {
+                    streak: parsed.streak,
+                    bestStreak: parsed.bestStreak,
+                    puzzleCode: typeof parsed.puzzleCode === 'string' ? parsed.puzzleCode : null,
+                }
+            }
+        } catch (e) {
+            console.error('Failed to parse stored survival progress')
+        }
+    }
+    return { streak: 0, bestStreak: 0, puzzleCode: null }
+}
+
+export function DoubleStrikeSurvival() {
+    useDocumentTitle('Double Strike Survival | ChessPrac')
+    const {
+        remainingPieces,
+        positionFen,
+        exhaustedSquares,
+        strikePips,
+        isDeadEnd,
+        resetGame,
+        onPieceDrop,
+        onPromotionPieceSelect,
+        onPromotionCheck,
+        isDraggablePiece,
+    } = useDoubleStrikeGame(DEFAULT_RULES, { maxStates: DEAD_END_MAX_STATES })
+    const [phase, setPhase] = useState<Phase>('loading')
+    const [progress, setProgress] = useState<SurvivalProgress>(loadProgress)
+    const [currentPuzzle, setCurrentPuzzle] = useState<GeneratedPuzzle | null>(null)
+    const [endedBy, setEndedBy] = useState<'dead-end' | 'solution' | null>(null)
+    const [finalStreak, setFinalStreak] = useState(0)
+    const loadId = useRef(0)
+    const generation = useRef<AbortController | null>(null)
+    const bestAtRunStart = useRef(progress.bestStreak)
+
+    // Save to localStorage whenever progress changes
+    useEffect(() => {
+        localStorage.setItem(PROGRESS_KEY, JSON.stringify(progress))
+    }, [progress])
+
+    const loadPuzzle = async (streak: number, code: string | null) => {
+        const id = ++loadId.current
+        generation.current?.abort()
+        const controller = new AbortController()
+        generation.current = controller
+        setPhase('loading')
+
+        const puzzleCode = code ? decodePuzzleCode(code) : null
+        let puzzle: GeneratedPuzzle | null = null
+        try {
+            // A stored puzzle is regenerated exactly, otherwise the piece count is fixed by the streak
+            const request = puzzleCode ?? { pieceCount: pieceCountFor(streak), quality: DEFAULT_QUALITY_RULES }
+            puzzle = await generatePuzzleInWorker(request, {
+                signal: controller.signal,
+                fallbackAfterMs: null,
+            })
+        } catch (err) {
+            if (isAbortError(err)) return
+            plausibleEvent('double-strike:generation-failed')
+        }
+        if (id !== loadId.current) return
+
+        if (!puzzle) {
+            notifications.show({
+                message: 'Puzzle generation failed. Please try again.',
+                color: 'red',
+            })
+            return
+        }
+
+        setCurrentPuzzle(puzzle)
+        resetGame(fenToBoard(puzzle.fen), puzzle.solution)
+        setProgress(prev => ({ ...prev, streak, puzzleCode: puzzle.code }))
+        setPhase('playing')
+    }
+
+    // The game already played the fail sound for a dead end
+    const endRun = (reason: 'dead-end' | 'solution') => {
+        if (reason === 'solution') playSound(failSound)
+        setEndedBy(reason)
+        setFinalStreak(progress.streak)
+        setProgress(prev => ({ ...prev, streak: 0, puzzleCode: null }))
+        setPhase('over')
+        plausibleEvent('double-strike:survival-over', { props: { streak: progress.streak, reason } })
+    }
+
+    const startNewRun = () => {
+        setEndedBy(null)
+        bestAtRunStart.current = progress.bestStreak
+        loadPuzzle(0, null)
+        plausibleEvent('double-strike:survival-start')
+    }
+
+    // Resume the stored run on first load, and stop generating when leaving the page
+    useEffect(() => {
+        loadPuzzle(progress.streak, progress.puzzleCode)
+        return () => generation.current?.abort()
+    }, [])
+
+    useEffect(() => {
+        if (phase === 'playing' && remainingPieces === 1) {
+            const streak = progress.streak + 1
+            playSound(successSound)
+            setProgress(prev => ({ ...prev, streak, bestStreak: Math.max(prev.bestStreak, streak) }))
+            loadPuzzle(streak, null)
+        }
+    }, [remainingPieces, phase])
+
+    // The run ends at the first dead end, there is no undo in survival
+    useEffect(() => {
+        if (phase === 'playing' && isDeadEnd) {
+            endRun('dead-end')
+        }
+    }, [isDeadEnd, phase])
+
+    const isPlaying = phase === 'playing'
+
+    return (
+        <Center
+            w="100vw"
+            h="auto"
+            mt={{
+                base: 'xs',
+                md: rem(40),
+            }}
+        >
+            <Stack w={{ base: '92%', md: '84%' }}>
+                <Grid justify="center">
+                    <Grid.Col span={{ base: 12, md: 5 }}>
+                        <Group gap="xs" h={36}>
+                            <IconHeartbeat size={32} />
+                            <Title order={2}>Survival</Title>
+                        </Group>
+                    </Grid.Col>
+                    <Grid.Col span={{ base: 12, md: 4 }}>
+                        <DoubleStrikeModes />
+                    </Grid.Col>
+                </Grid>
+                <Grid justify="center">
+                    <Grid.Col span={{ base: 12, md: 5 }}>
+                        <Box>
+                            <MyChessboard
+                                position={phase === 'over' && currentPuzzle ? currentPuzzle.fen : positionFen}
+                                onPieceDrop={onPieceDrop}
+                                onPromotionPieceSelect={onPromotionPieceSelect}
+                                onPromotionCheck={onPromotionCheck}
+                                promotionDialogVariant="vertical"
+                                boardOrientation="white"
+                                animationDuration={0}
+                                isDraggablePiece={props => isPlaying && isDraggablePiece(props)}
+                                fadedPieces={phase === 'over' ? undefined : exhaustedSquares}
+                                piecePips={phase === 'over' ? undefined : strikePips}
+                            />
+                        </Box>
+                    </Grid.Col>
+                    <Grid.Col span={{ base: 12, md: 4 }}>
+                        <Stack gap="md">
+                            <Group>
+                                <Badge size="lg" variant="light" color="green">
+                                    Streak: {phase === 'over' ? finalStreak : progress.streak}
+                                </Badge>
+                                <Badge size="lg" variant="light" color="yellow">
+                                    Best: {progress.bestStreak}
+                                </Badge>
+                            </Group>
+
+                            {phase !== 'over' && (
+                                <>
+                                    <Text>Solve puzzles in a row. Every solve adds a piece to the next one.</Text>
+                                    <Text size="sm" c="dimmed">
+                                        The run ends at the first dead end or when you reveal the solution.
+                                    </Text>
+                                    {currentPuzzle && <Text>{currentPuzzle.pieceCount} pieces</Text>}
+                                    <Group>
+                                        <Button
+                                            variant="outline"
+                                            size="md"
+                                            onClick={() => endRun('solution')}
+                                            disabled={!isPlaying}
+                                        >
+                                            Show Solution
+                                        </Button>
+                                    </Group>
+                                </>
+                            )}
+
+                            {phase === 'over' && currentPuzzle && (
+                                <>
+                                    <Text size="xl" fw={700} c="red">
+                                        {endedBy === 'dead-end' ? 'Dead end!' : 'Run over'}
+                                    </Text>
+                                    <Text>
+                                        Your run ended on this {currentPuzzle.pieceCount} piece puzzle after{' '}
+                                        {finalStreak} {finalStreak === 1 ? 'solve' : 'solves'}.
+                                    </Text>
+                                    {finalStreak > bestAtRunStart.current && (
+                                        <Text fw={700} c="yellow">
+                                            New best streak! 🎉
+                                        </Text>
+                                    )}
+                                    <SolutionList solution={currentPuzzle.solution} />
+                                    <Box>
+                                        <Button size="md" onClick={startNewRun}>
+                                            New Run
+                                        </Button>
+                                    </Box>
+                                </>
+                            )}
+                        </Stack>
+                    </Grid.Col>
+                </Grid>
+            </Stack>
+        </Center>
+    )
+}
@@ -1,19 +1,59 @@
 import { Piece } from 'react-chessboard/dist/chessboard/types'
+import { createSeededRandom, randomSeed, RandomSource } from '../utils/random'
+import { canCapture, canReach, canStandOn, isPromotion, promotionRank } from './movement'
+import { formatSolution } from './notation'
 
 /*
     The game is won by capturing until there is only one piece left on the board.
     1. Every move must capture a piece
-    2. Pieces may only move twice
+    2. Pieces may only move twice. Variants change this strike limit to one, three or unlimited moves.
     3. If the king is on the board, it must be the last remaining piece (cannot be captured)
+    In the two color variants every capture must take a piece of the other color, and optionally
+    the sides take turns starting with white.
 */
 
+export const MIN_PIECE_COUNT = 3
+export const MAX_PIECE_COUNT = 27
+
+// Boards are square, small ones for warming up and large ones for a new challenge
+export const DEFAULT_BOARD_SIZE = 8
+export const BOARD_SIZES = [5, 6, 8, 10]
+
+// How many times each piece may move
+export const DEFAULT_STRIKE_LIMIT = 2
+export const UNLIMITED_STRIKES = Infinity
+export const STRIKE_LIMITS = [1, 2, 3, UNLIMITED_STRIKES]
+
+// Single color puzzles are all white. With "opposite" captures must take the other color,
+// with "alternate" they must also alternate between white and black.
+export type ColorRule = 'none' | 'opposite' | 'alternate'
+export const COLOR_RULES: ColorRule[] = ['none', 'opposite', 'alternate']
+
+// Rules that differ between Double Strike variants
+export type VariantRules = {
+    strikeLimit: number
+    colorRule: ColorRule
+    // Number of files and ranks
+    boardSize: number
+}
+
+export const DEFAULT_RULES: VariantRules = {
+    strikeLimit: DEFAULT_STRIKE_LIMIT,
+    colorRule: 'none',
+    boardSize: DEFAULT_BOARD_SIZE,
+}
+
 export type SimplePiece = 'K' | 'Q' | 'R' | 'B' | 'N' | 'P'
+export type PieceColor = 'w' | 'b'
+export type ColoredPiece = { type: SimplePiece; color: PieceColor }
 export type Position = { x: number; y: number }
 export type Move = {
     from: Position
     to: Position
     captured: SimplePiece
     piece: SimplePiece
+    // Color of the moving piece
+    color: PieceColor
     pieceId: string
     wasPromotion?: boolean
 }
@@ -22,13 +62,137 @@ export function pieceToSimplePiece(piece: Piece) {
     return piece.split('')[1].toUpperCase() as SimplePiece
 }
 
+export function oppositeColor(color: PieceColor): PieceColor {
+    return color === 'w' ? 'b' : 'w'
+}
+
+// Uppercase for white and lowercase for black, as in FEN
+export function pieceToFenChar({ type, color }: ColoredPiece): string {
+    return color === 'w' ? type : type.toLowerCase()
+}
+
+// The piece placement part of a FEN
+export function boardToFen(board: readonly (readonly (ColoredPiece | null)[])[]): string {
+    return board
+        .map(row =>
+            row
+                .map(cell => (cell ? pieceToFenChar(cell) : '1'))
+                .join('')
+                .replace(/1+/g, match => match.length.toString()),
+        )
+        .join('/')
+}
+
+export function fenCharToPiece(char: string): ColoredPiece {
+    return { type: char.toUpperCase() as SimplePiece, color: char === char.toUpperCase() ? 'w' : 'b' }
+}
+
+// With alternating turns white plays the even numbered captures
+export function sideToMove(movesPlayed: number): PieceColor {
+    return movesPlayed % 2 === 0 ? 'w' : 'b'
+}
+
+// Files go on past h on boards larger than 8x8, so a square can have a two digit rank like j10
+export function positionToAlgebraic(pos: Position, boardSize: number = DEFAULT_BOARD_SIZE): string {
+    const file = String.fromCharCode(97 + pos.x)
+    const rank = (boardSize - pos.y).toString()
+    return `${file}${rank}`
+}
+
+export function algebraicToPosition(square: string, boardSize: number = DEFAULT_BOARD_SIZE): Position {
+    const file = square.charCodeAt(0) - 97
+    const rank = boardSize - parseInt(square.slice(1))
+    return { x: file, y: rank }
+}
+
+// Rows of a FEN's piece placement, empty squares can be counted with more than one digit on large boards
+export function parseFenRows(fen: string): (ColoredPiece | null)[][] {
+    return fen
+        .split(' ')[0]
+        .split('/')
+        .map(row =>
+            (row.match(/\d+|\D/g) ?? []).flatMap(token =>
+                /\d/.test(token) ? Array(parseInt(token)).fill(null) : [fenCharToPiece(token)],
+            ),
+        )
+}
+
+// Too small boards leave no room for a puzzle and too many pieces crowd the board
+export function maxPieceCount(boardSize: number): number {
+    return Math.min(MAX_PIECE_COUNT, Math.floor((boardSize * boardSize) / 2))
+}
+
+// Piece types that can be captured, the king can only ever be the final piece
+export const CAPTURABLE_PIECES: SimplePiece[] = ['Q', 'R', 'B', 'N', 'P']
+
+// Piece sets are written to URLs as their letters, e.g. "NP"
+export function pieceSetToParam(pieces: SimplePiece[]): string {
+    return CAPTURABLE_PIECES.filter(piece => pieces.includes(piece)).join('')
+}
+
+export function parsePieceSet(param: string | null): SimplePiece[] | null {
+    if (!param || !/^[QRBNP]+$/.test(param)) return null
+    return CAPTURABLE_PIECES.filter(piece => param.includes(piece))
+}
+
+export function strikeLimitName(strikeLimit: number): string {
+    return ['Single', 'Double', 'Triple'][strikeLimit - 1] ?? 'Unlimited'
+}
+
+// Strike limits are written to URLs as the number of moves or "unlimited"
+export function strikeLimitToParam(strikeLimit: number): string {
+    return strikeLimit === UNLIMITED_STRIKES ? 'unlimited' : strikeLimit.toString()
+}
+
+export function parseStrikeLimit(param: string | null): number | null {
+    return STRIKE_LIMITS.find(strikeLimit => strikeLimitToParam(strikeLimit) === param) ?? null
+}
+
+export function boardSizeName(boardSize: number): string {
+    return `${boardSize}x${boardSize}`
+}
+
+export function parseBoardSize(param: string | null): number | null {
+    return BOARD_SIZES.find(boardSize => boardSize.toString() === param) ?? null
+}
+
+export function colorRuleName(colorRule: ColorRule): string {
+    return { none: 'One color', opposite: 'Two colors', alternate: 'Alternating' }[colorRule]
+}
+
+// Color rules other than the default are written to URLs by name
+export function parseColorRule(param: string | null): ColorRule | null {
+    return COLOR_RULES.find(colorRule => colorRule === param) ?? null
+}
+
+// Only variant rules that differ from the defaults go into the URL
+export function setRuleParams(searchParams: URLSearchParams, { strikeLimit, colorRule, boardSize }: VariantRules) {
+    if (strikeLimit !== DEFAULT_RULES.strikeLimit) {
+        searchParams.set('strikes', strikeLimitToParam(strikeLimit))
+    }
+    if (colorRule !== DEFAULT_RULES.colorRule) {
+        searchParams.set('colors', colorRule)
+    }
+    if (boardSize !== DEFAULT_RULES.boardSize) {
+        searchParams.set('size', boardSize.toString())
+    }
+}
+
+export function parseRuleParams(params: URLSearchParams): VariantRules {
+    return {
+        strikeLimit: parseStrikeLimit(params.get('strikes')) ?? DEFAULT_RULES.strikeLimit,
+        colorRule: parseColorRule(params.get('colors')) ?? DEFAULT_RULES.colorRule,
+        boardSize: parseBoardSize(params.get('size')) ?? DEFAULT_RULES.boardSize,
+    }
+}
+
 // Add type for piece weights
 type PieceWeights = {
     readonly [K in SimplePiece]: number
 }
 
 const PIECE_WEIGHTS: PieceWeights = {
-    K: 100, // King (only used when not excluding king)
+    K: 100, // King (only used for the final piece)
     P: 3, // Pawn
     N: 4, // Knight
     B: 4, // Bishop
@@ -36,78 +200,119 @@ const PIECE_WEIGHTS: PieceWeights = {
     Q: 1, // Queen
 }
 
+type Board = (ColoredPiece | null)[][]
+
+// Un-captures tried from each position before backing out
+const BRANCHING_FACTOR = 3
+// Search steps allowed per piece before starting over from a new final square
+const STEPS_PER_RESTART = 200
+const MAX_RESTARTS = 50
+// Report progress every this many search steps
+const PROGRESS_INTERVAL = 500
+
+// A capture played backwards: the piece on `to` returns to `from` and the captured piece reappears on `to`
+type UnCapture = {
+    pieceId: string
+    from: Position
+    to: Position
+    wasPromotion: boolean
+}
+
+// Thrown when no puzzle was found within the search limits, other errors are bugs
+export class PuzzleGenerationError extends Error {}
+
+export type GeneratorOptions = {
+    finalPiece?: SimplePiece
+    // Piece types placed on the board, defaults to all of CAPTURABLE_PIECES
+    allowedPieces?: SimplePiece[]
+    strikeLimit?: number
+    colorRule?: ColorRule
+    boardSize?: number
+    // Same seed, final piece and piece count always produce the same puzzle
+    seed?: number
+}
+
 export class DoubleStrikeChessGenerator {
-    private board: (SimplePiece | null)[][] = Array(8)
-        .fill(null)
-        .map(() => Array(8).fill(null))
+    private board: Board = []
     private solution: Move[] = []
     private pieceCount = 0
     private moveCounts: Map<string, number> = new Map()
     private nextPieceId = 1
     private pieceLocations: Map<string, Position> = new Map()
     private readonly finalPiece: SimplePiece
+    private readonly strikeLimit: number
+    private readonly colorRule: ColorRule
+    private readonly boardSize: number
+    // Only drawn for two color puzzles without turns, otherwise the final color follows from the rules
+    private readonly randomFinalColor: PieceColor = 'w'
+    private readonly allowedPieces: SimplePiece[]
     private lastUsedPiece: SimplePiece | null = null
+    private readonly seed: number
+    private readonly random: RandomSource
+    // Search steps taken so far, reported as progress
+    private steps = 0
+
+    constructor({
+        finalPiece,
+        seed,
+        strikeLimit = DEFAULT_STRIKE_LIMIT,
+        colorRule = 'none',
+        allowedPieces = CAPTURABLE_PIECES,
+        boardSize = DEFAULT_BOARD_SIZE,
+    }: GeneratorOptions = {}) {
+        this.seed = seed ?? randomSeed()
+        this.random = createSeededRandom(this.seed)
+        this.strikeLimit = strikeLimit
+        this.colorRule = colorRule
+        this.boardSize = boardSize
+        this.allowedPieces = allowedPieces.filter(piece => piece !== 'K')
+        if (this.allowedPieces.length === 0) {
+            throw new Error('At least one piece type must be allowed')
+        }
 
-    constructor(finalPiece?: SimplePiece) {
-        if (finalPiece) {
-            this.finalPiece = finalPiece
-        } else {
-            // Randomly select any piece type (including King)
-            this.finalPiece = this.getRandomPiece(false)
+        // Randomly select an allowed piece type or the King. Always drawn so that passing
+        // the final piece explicitly doesn't shift the rest of the seeded sequence.
+        const randomFinalPiece = this.getRandomPiece(['K', ...this.allowedPieces])
+        this.finalPiece = finalPiece ?? randomFinalPiece
+        if (colorRule === 'opposite') {
+            this.randomFinalColor = this.random() < 0.5 ? 'w' : 'b'
         }
     }
 
+    // The last capture is made by the final piece, so with turns its color depends on the number of captures
+    private getFinalColor(numPieces: number): PieceColor {
+        return this.colorRule === 'alternate' ? sideToMove(numPieces - 2) : this.randomFinalColor
+    }
+
+    // Color of the pieces that can be captured by a piece of this color
+    private capturedColor(color: PieceColor): PieceColor {
+        return this.colorRule === 'none' ? color : oppositeColor(color)
+    }
+
     private generatePieceId(): string {
         return (this.nextPieceId++).toString()
     }
 
     private getRandomQuadrant(): Position {
-        // Divide board into 4 quadrants and return random position within one
-        const quadrant = Math.floor(Math.random() * 4)
-        const x = Math.floor(Math.random() * 4) + (quadrant % 2) * 4
-        const y = Math.floor(Math.random() * 4) + Math.floor(quadrant / 2) * 4
+        // Divide board into 4 quadrants and return random position within one.
+        // On odd sized boards the second half of each side is one square larger.
+        const quadrant = Math.floor(this.random() * 4)
+        const half = Math.floor(this.boardSize / 2)
+        const randomInHalf = (second: boolean) =>
+            second ? half + Math.floor(this.random() * (this.boardSize - half)) : Math.floor(this.random() * half)
+        const x = randomInHalf(quadrant % 2 === 1)
+        const y = randomInHalf(quadrant >= 2)
         return { x, y }
     }
 
     private randomPosition(): Position {
         // 30% chance to use quadrant-based positioning
-        if (Math.random() < 0.3) {
+        if (this.random() < 0.3) {
             return this.getRandomQuadrant()
         }
         return {
-            x: Math.floor(Math.random() * 8),
-            y: Math.floor(Math.random() * 8),
-        }
-    }
-
-    private isValidMove(
-        from: Position,
-        to: Position,
-        piece: SimplePiece,
-        isBackwardGeneration: boolean = false,
-    ): boolean {
-        const dx = Math.abs(from.x - to.x)
-        const dy = to.y - from.y // Positive means moving down the board
-
-        switch (piece) {
-            case 'P':
-                if (isBackwardGeneration) {
-                    return dx === 1 && dy === 1
-                } else {
-                    return dx === 1 && dy === -1
-                }
-            case 'N':
-                return (dx === 2 && Math.abs(dy) === 1) || (dx === 1 && Math.abs(dy) === 2)
-            case 'B':
-                return dx === Math.abs(dy) && this.hasLineOfSight(from, to)
-            case 'R':
-                return (dx === 0 || Math.abs(dy) === 0) && this.hasLineOfSight(from, to)
-            case 'Q':
-                return (dx === Math.abs(dy) || dx === 0 || Math.abs(dy) === 0) && this.hasLineOfSight(from, to)
-            case 'K':
-                return dx <= 1 && Math.abs(dy) <= 1
-            default:
-                return false
+            x: Math.floor(this.random() * this.boardSize),
+            y: Math.floor(this.random() * this.boardSize),
         }
     }
 
@@ -115,115 +320,136 @@ export class DoubleStrikeChessGenerator {
         return this.board[pos.y][pos.x] === null
     }
 
-    private positionToAlgebraic(pos: Position): string {
-        const file = String.fromCharCode(97 + pos.x)
-        const rank = (8 - pos.y).toString()
-        return `${file}${rank}`
-    }
-
-    private placePiece(piece: SimplePiece, position: Position): string {
-        // Prevent pawns from being placed on first or last ranks
-        if (piece === 'P' && position.y === 0) {
-            throw new Error('Invalid pawn placement')
-        }
-
+    private placePiece(piece: ColoredPiece, position: Position): string {
         const pieceId = this.generatePieceId()
         this.board[position.y][position.x] = piece
-        this.pieceCount++
+        this.pieceLocations.set(pieceId, position)
         this.moveCounts.set(pieceId, 0)
+        this.pieceCount++
         return pieceId
     }
 
-    private removePiece(position: Position): void {
+    private removePiece(pieceId: string): void {
+        const position = this.pieceLocations.get(pieceId)!
         this.board[position.y][position.x] = null
+        this.pieceLocations.delete(pieceId)
+        this.moveCounts.delete(pieceId)
         this.pieceCount--
     }
 
-    private findValidCapturePosition(
-        from: Position,
-        piece: SimplePiece,
-    ): { position: Position; promotedPiece?: SimplePiece } | null {
-        const candidates: Position[] = []
-        const promotionCandidates: Position[] = []
-
-        for (let y = 0; y < 8; y++) {
-            for (let x = 0; x < 8; x++) {
-                const to = { x, y }
-                // Skip if trying to capture a king
-                if (this.board[y][x] === 'K') continue
-                
-                if (this.isSquareEmpty(to) && this.isValidMove(from, to, piece, true)) {
-                    if (piece === 'P' && y === 0) {
-                        promotionCandidates.push(to)
-                    } else {
-                        candidates.push(to)
+    /*
+        Every capture that could have led to the current position, for pieces that still have a move to spare.
+        When sides take turns only pieces of the side to move can have made the capture.
+    */
+    private findUnCaptures(moverColor: PieceColor | null): UnCapture[] {
+        const unCaptures: UnCapture[] = []
+
+        for (const [pieceId, to] of this.pieceLocations) {
+            if ((this.moveCounts.get(pieceId) ?? 0) >= this.strikeLimit) continue
+            // Some piece sets can't put anything on this square, e.g. pawns only on the back rank
+            if (!this.allowedPieces.some(piece => canStandOn(piece, to, this.boardSize))) continue
+            const piece = this.board[to.y][to.x]!
+            if (moverColor && piece.color !== moverColor) continue
+            const pawn: ColoredPiece = { type: 'P', color: piece.color }
+
+            for (let y = 0; y < this.boardSize; y++) {
+                for (let x = 0; x < this.boardSize; x++) {
+                    const from = { x, y }
+                    if (!this.isSquareEmpty(from)) continue
+
+                    if (canStandOn(piece.type, from, this.boardSize) && canReach(from, to, piece, this.board)) {
+                        unCaptures.push({ pieceId, from, to, wasPromotion: false })
+                    } else if (
+                        to.y === promotionRank(piece.color, this.boardSize) &&
+                        piece.type !== 'K' &&
+                        canStandOn('P', from, this.boardSize) &&
+                        canReach(from, to, pawn, this.board)
+                    ) {
+                        // A piece on the back rank may have been a pawn that promoted with this capture
+                        unCaptures.push({ pieceId, from, to, wasPromotion: true })
                     }
                 }
             }
         }
 
-        // Prefer promotion moves if available
-        if (piece === 'P' && promotionCandidates.length > 0) {
-            const position = promotionCandidates[Math.floor(Math.random() * promotionCandidates.length)]
-            const promotionPieces: SimplePiece[] = ['Q', 'R', 'B', 'N']
-            const promotedPiece = promotionPieces[Math.floor(Math.random() * promotionPieces.length)]
-            return { position, promotedPiece }
-        }
-
-        // Fall back to regular moves if no promotion or not selected
-        if (candidates.length === 0 && promotionCandidates.length === 0) return null
+        return unCaptures
+    }
 
-        // Combine both arrays, with promotion moves still possible
-        const allMoves = [...candidates, ...promotionCandidates]
-        const position = allMoves[Math.floor(Math.random() * allMoves.length)]
+    // Moves the piece back and puts the captured piece on the square it took, returns the captured piece's id
+    private applyUnCapture({ pieceId, from, to, wasPromotion }: UnCapture, captured: SimplePiece): string {
+        const piece = this.board[to.y][to.x]!
+        this.board[to.y][to.x] = null
+        this.board[from.y][from.x] = wasPromotion ? { type: 'P', color: piece.color } : piece
+        this.pieceLocations.set(pieceId, from)
+        this.moveCounts.set(pieceId, (this.moveCounts.get(pieceId) ?? 0) + 1)
 
-        // Handle pawn promotion if we randomly selected a promotion move
-        if (piece === 'P' && position.y === 0) {
-            const promotionPieces: SimplePiece[] = ['Q', 'R', 'B', 'N']
-            const promotedPiece = promotionPieces[Math.floor(Math.random() * promotionPieces.length)]
-            return { position, promotedPiece }
-        }
+        this.solution.push({ from, to, captured, piece: piece.type, color: piece.color, pieceId, wasPromotion })
+        return this.placePiece({ type: captured, color: this.capturedColor(piece.color) }, to)
+    }
 
-        return { position }
+    private undoUnCapture({ pieceId, from, to }: UnCapture, capturedId: string): void {
+        this.removePiece(capturedId)
+        const move = this.solution.pop()!
+        this.board[from.y][from.x] = null
+        this.board[to.y][to.x] = { type: move.piece, color: move.color }
+        this.pieceLocations.set(pieceId, to)
+        this.moveCounts.set(pieceId, this.moveCounts.get(pieceId)! - 1)
     }
 
-    private hasExceededMoveLimit(pieceId: string): boolean {
-        const moveCount = this.moveCounts.get(pieceId) || 0
-        return moveCount >= 2
+    private randomCapturedPiece(position: Position): SimplePiece {
+        return this.getRandomPiece(this.allowedPieces.filter(piece => canStandOn(piece, position, this.boardSize)))
     }
 
-    private incrementMoveCount(pieceId: string): void {
-        const moveCount = this.moveCounts.get(pieceId) || 0
-        this.moveCounts.set(pieceId, moveCount + 1)
+    private shuffle<T>(items: T[]): T[] {
+        for (let i = items.length - 1; i > 0; i--) {
+            const j = Math.floor(this.random() * (i + 1))
+            ;[items[i], items[j]] = [items[j], items[i]]
+        }
+        return items
     }
 
     private validateSolution(): boolean {
         const boardCopy = this.board.map(row => [...row])
         const moveCounts: Map<string, number> = new Map()
 
-        for (const move of this.solution) {
+        for (const [index, move] of this.solution.entries()) {
             const fromPiece = boardCopy[move.from.y][move.from.x]
             const toPiece = boardCopy[move.to.y][move.to.x]
+            const movingPiece: ColoredPiece = { type: move.wasPromotion ? 'P' : move.piece, color: move.color }
 
             // Ensure the piece exists at the source and matches
-            if (!fromPiece || fromPiece !== move.piece || !toPiece || toPiece !== move.captured) {
+            if (!fromPiece || fromPiece.type !== movingPiece.type || fromPiece.color !== move.color) {
+                return false
+            }
+            if (!toPiece || toPiece.type !== move.captured) {
                 return false
             }
 
-            // Ensure the move is valid
-            if (!this.isValidMove(move.from, move.to, move.piece, false)) {
+            // Ensure the colors follow the variant's rules
+            if (toPiece.color !== this.capturedColor(move.color)) {
+                return false
+            }
+            if (this.colorRule === 'alternate' && move.color !== sideToMove(index)) {
                 return false
             }
 
-            // Ensure the piece hasn't moved more than twice
+            // Ensure the move is valid and promotes exactly when a pawn reaches its last rank
+            if (!canCapture(move.from, move.to, boardCopy, this.colorRule)) {
+                return false
+            }
+            if (isPromotion(movingPiece, move.to, this.boardSize) !== !!move.wasPromotion) {
+                return false
+            }
+
+            // Ensure the piece hasn't used up its strikes
             const moveCount = moveCounts.get(move.pieceId) || 0
-            if (moveCount >= 2) {
+            if (moveCount >= this.strikeLimit) {
                 return false
             }
             moveCounts.set(move.pieceId, moveCount + 1)
 
             // Execute the move
-            boardCopy[move.to.y][move.to.x] = move.piece
+            boardCopy[move.to.y][move.to.x] = { type: move.piece, color: move.color }
             boardCopy[move.from.y][move.from.x] = null
         }
 
@@ -232,16 +458,16 @@ export class DoubleStrikeChessGenerator {
         if (remainingPieces.length !== 1) return false
 
         // If there was a king in the starting position, it must be the final piece
-        const hasKing = this.board.flat().some(cell => cell === 'K')
-        if (hasKing && remainingPieces[0] !== 'K') return false
+        const hasKing = this.board.flat().some(cell => cell?.type === 'K')
+        if (hasKing && remainingPieces[0]!.type !== 'K') return false
 
         return true
     }
 
-    private getRandomPiece(excludeKing: boolean = true): SimplePiece {
-        // Filter pieces based on whether we want to exclude the king
+    private getRandomPiece(pieces: SimplePiece[]): SimplePiece {
+        // Only weigh the pieces we can choose from
         const weights = Object.entries(PIECE_WEIGHTS)
-            .filter(([piece]) => !excludeKing || piece !== 'K')
+            .filter(([piece]) => pieces.includes(piece as SimplePiece))
             .reduce<Partial<PieceWeights>>(
                 (acc, [piece, weight]) => ({
                     ...acc,
@@ -254,7 +480,7 @@ export class DoubleStrikeChessGenerator {
         const totalWeight = Object.values(weights).reduce((sum, weight) => sum + weight, 0)
 
         // Generate random number between 0 and total weight
-        let random = Math.random() * totalWeight
+        let random = this.random() * totalWeight
 
         // Find the piece that corresponds to the random value
         for (const [piece, weight] of Object.entries(weights)) {
@@ -266,158 +492,83 @@ export class DoubleStrikeChessGenerator {
         }
 
         // Fallback (should never reach here)
-        return 'P'
+        return pieces[0]
     }
 
-    private hasLineOfSight(from: Position, to: Position): boolean {
-        const dx = to.x - from.x
-        const dy = to.y - from.y
-
-        // Determine step direction
-        const stepX = dx === 0 ? 0 : dx / Math.abs(dx)
-        const stepY = dy === 0 ? 0 : dy / Math.abs(dy)
-
-        // Check each square between from and to (exclusive)
-        let x = from.x + stepX
-        let y = from.y + stepY
+    /*
+        Depth first search that plays captures backwards from the final position. Each step moves a piece
+        back to a square it could have captured from and puts a new piece where it landed. Only a few
+        random un-captures are tried per position, and the search backs out of positions where none work.
+    */
+    private extend(numPieces: number, maxSteps: number, onProgress?: (attempts: number) => void): boolean {
+        if (this.pieceCount === numPieces) return true
+        if (++this.steps > maxSteps) return false
+        if (onProgress && this.steps % PROGRESS_INTERVAL === 0) {
+            onProgress(this.steps)
+        }
 
-        while (x !== to.x || y !== to.y) {
-            if (this.board[y][x] !== null) {
-                return false // Path is blocked
-            }
-            x += stepX
-            y += stepY
+        // Captures are found from last to first, so this finds who made capture number numPieces - pieceCount - 1
+        const moverColor = this.colorRule === 'alternate' ? sideToMove(numPieces - this.pieceCount - 1) : null
+        const candidates = this.shuffle(this.findUnCaptures(moverColor)).slice(0, BRANCHING_FACTOR)
+        for (const unCapture of candidates) {
+            const capturedId = this.applyUnCapture(unCapture, this.randomCapturedPiece(unCapture.to))
+            if (this.extend(numPieces, maxSteps, onProgress)) return true
+            this.undoUnCapture(unCapture, capturedId)
+            if (this.steps > maxSteps) return false
         }
 
-        return true
+        return false
     }
 
-    public async generate(numPieces: number): Promise<void> {
-        let globalAttempts = 0
-        const maxGlobalAttempts = 10000 // Number of times to restart from scratch
-        const maxLocalAttempts = 100 // Number of attempts per generation try
-
-        while (globalAttempts < maxGlobalAttempts) {
-            globalAttempts++
-            let localAttempts = 0
+    public async generate(numPieces: number, onProgress?: (attempts: number) => void): Promise<void> {
+        this.steps = 0
 
-            // Reset everything for a fresh attempt
-            this.board = Array(8)
+        for (let restart = 0; restart < MAX_RESTARTS; restart++) {
+            // Reset everything for a fresh attempt from a new final square
+            this.board = Array(this.boardSize)
                 .fill(null)
-                .map(() => Array(8).fill(null))
+                .map(() => Array(this.boardSize).fill(null))
             this.solution = []
             this.pieceCount = 0
             this.moveCounts.clear()
+            this.pieceLocations.clear()
             this.nextPieceId = 1
             this.lastUsedPiece = null
 
-            try {
-                // Place final piece
-                const finalPosition = this.randomPosition()
-                if (this.finalPiece === 'P' && (finalPosition.y === 0 || finalPosition.y === 7)) {
-                    throw new Error('Invalid final piece placement')
-                }
-                const finalPieceId = this.placePiece(this.finalPiece, finalPosition)
-                this.pieceLocations.set(finalPieceId, finalPosition)
-
-                while (this.pieceCount < numPieces && localAttempts < maxLocalAttempts) {
-                    localAttempts++
-
-                    // Find a piece that can still move
-                    const movablePieces = Array.from(this.pieceLocations.entries())
-                        .filter(([pieceId]) => !this.hasExceededMoveLimit(pieceId))
-
-                    if (movablePieces.length === 0) {
-                        // Try to place a new piece
-                        let placementAttempts = 0
-                        while (placementAttempts < 20) {
-                            const newPos = this.randomPosition()
-                            if (this.isSquareEmpty(newPos)) {
-                                const newPiece = this.getRandomPiece(true)
-                                const newPieceId = this.placePiece(newPiece, newPos)
-                                this.pieceLocations.set(newPieceId, newPos)
-                                break
-                            }
-                            placementAttempts++
-                        }
-                        continue
-                    }
-
-                    // Randomly select a piece that can still move
-                    const [selectedPieceId, currentPos] = movablePieces[
-                        Math.floor(Math.random() * movablePieces.length)
-                    ]
-                    
-                    const currentPiece = this.board[currentPos.y][currentPos.x]!
-                    const captureResult = this.findValidCapturePosition(currentPos, currentPiece)
-
-                    if (!captureResult) continue
-
-                    // Update piece tracking
-                    this.removePiece(currentPos)
-                    const movingPiece = captureResult.promotedPiece || currentPiece
-                    this.placePiece(movingPiece, captureResult.position)
-                    this.pieceLocations.set(selectedPieceId, captureResult.position)
-                    this.incrementMoveCount(selectedPieceId)
-
-                    const newPiece = this.getRandomPiece()
-                    const newPieceId = this.placePiece(newPiece, currentPos)
-                    this.pieceLocations.set(newPieceId, currentPos)
-
-                    this.solution.push({
-                        from: captureResult.position,
-                        to: currentPos,
-                        captured: newPiece,
-                        piece: movingPiece,
-                        pieceId: selectedPieceId,
-                        wasPromotion: !!captureResult.promotedPiece,
-                    })
-                }
+            let finalPosition = this.randomPosition()
+            while (!canStandOn(this.finalPiece, finalPosition, this.boardSize)) {
+                finalPosition = this.randomPosition()
+            }
+            this.placePiece({ type: this.finalPiece, color: this.getFinalColor(numPieces) }, finalPosition)
 
-                // Check if we've succeeded
-                if (this.pieceCount === numPieces) {
-                    this.solution.reverse()
-                    if (this.validateSolution()) {
-                        return // Success!
-                    }
+            if (this.extend(numPieces, this.steps + STEPS_PER_RESTART * numPieces, onProgress)) {
+                this.solution.reverse()
+                if (this.validateSolution()) {
+                    return // Success!
                 }
-
-                // If we get here, this attempt failed
-                throw new Error('Generation attempt failed')
-            } catch (e) {
-                // Failed attempt, continue to next global attempt
-                // await new Promise(resolve => setTimeout(resolve, 1))
-                continue
             }
         }
 
-        throw new Error('Could not generate a valid puzzle after maximum attempts')
+        throw new PuzzleGenerationError('Could not generate a valid puzzle after maximum attempts')
+    }
+
+    public getSeed(): number {
+        return this.seed
+    }
+
+    public getFinalPiece(): SimplePiece {
+        return this.finalPiece
+    }
+
+    public getRules(): VariantRules {
+        return { strikeLimit: this.strikeLimit, colorRule: this.colorRule, boardSize: this.boardSize }
     }
 
     public getFEN(): string {
-        return this.board
-            .map(row =>
-                row
-                    .map(cell => (cell ? cell : '1'))
-                    .join('')
-                    .replace(/1+/g, match => match.length.toString()),
-            )
-            .join('/')
+        return boardToFen(this.board)
     }
 
     public getSolution(): string[] {
-        return this.solution.map(move => {
-            const from = this.positionToAlgebraic(move.from);
-            const to = this.positionToAlgebraic(move.to);
-            if (move.piece === 'P') {
-                let notation = `${from[0]}x${to}`;
-                if (move.wasPromotion) {
-                    notation += `=${move.piece}`;
-                }
-                return notation;
-            } else {
-                return `${move.piece}${from}x${to}`;
-            }
-        });
+        return formatSolution(this.solution, this.boardSize)
     }
 }
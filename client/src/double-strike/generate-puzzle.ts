@@ -0,0 +1,137 @@
+import {
+    CAPTURABLE_PIECES,
+    ColorRule,
+    DEFAULT_STRIKE_LIMIT,
+    DoubleStrikeChessGenerator,
+    DEFAULT_BOARD_SIZE,
+    MIN_PIECE_COUNT,
+    PuzzleGenerationError,
+    SimplePiece,
+    VariantRules,
+    maxPieceCount,
+} from './double-strike'
+import { Difficulty, DifficultyBand, offsetFromBand, rateDoubleStrike } from './difficulty'
+import { encodePuzzleCode } from './puzzle-code'
+import { QualityRules, applicableQualityRules, meetsQualityRules } from './quality'
+import { createSeededRandom, randomSeed } from '../utils/random'
+
+export type GeneratedPuzzle = {
+    fen: string
+    solution: string[]
+    code: string
+    pieceCount: number
+    rules: VariantRules
+    difficulty: Difficulty | null
+}
+
+export type PuzzleRequest = {
+    pieceCount: number
+    finalPiece?: SimplePiece
+    seed?: number
+    strikeLimit?: number
+    colorRule?: ColorRule
+    boardSize?: number
+    allowedPieces?: SimplePiece[]
+    // Picks the piece count itself to land in the band, pieceCount is only the first guess
+    targetDifficulty?: DifficultyBand
+    // Puzzles that don't meet the rules are regenerated with new seeds, leave out to reproduce a puzzle code
+    quality?: QualityRules
+}
+
+// Messages posted by generate-puzzle.worker.ts
+export type GenerateWorkerMessage =
+    | { type: 'progress'; attempts: number }
+    | { type: 'done'; puzzle: GeneratedPuzzle }
+    | { type: 'error'; message: string }
+
+// Puzzles tried for the quality rules before giving up
+const MAX_QUALITY_ATTEMPTS = 100
+// Puzzles tried before settling for the one closest to the target band
+const MAX_DIFFICULTY_ATTEMPTS = 6
+// Piece count to start from for each band, ratings mostly grow with the number of captures
+export const BAND_PIECE_COUNTS: Record<DifficultyBand, number> = {
+    beginner: 4,
+    intermediate: 9,
+    advanced: 15,
+    expert: 20,
+}
+
+async function generateWithPieceCount(
+    { pieceCount, finalPiece, seed = randomSeed(), strikeLimit, colorRule, allowedPieces, boardSize }: PuzzleRequest,
+    onProgress?: (attempts: number) => void,
+): Promise<GeneratedPuzzle> {
+    const gen = new DoubleStrikeChessGenerator({ finalPiece, seed, strikeLimit, colorRule, allowedPieces, boardSize })
+    await gen.generate(pieceCount, onProgress)
+
+    const fen = gen.getFEN() + ' w - - 0 1'
+    const solution = gen.getSolution()
+    const rules = gen.getRules()
+    return {
+        fen,
+        solution,
+        code: encodePuzzleCode({ pieceCount, finalPiece: gen.getFinalPiece(), seed }),
+        pieceCount,
+        rules,
+        difficulty: rateDoubleStrike(fen, solution, rules),
+    }
+}
+
+async function generateWithQuality(
+    request: PuzzleRequest,
+    onProgress?: (attempts: number) => void,
+): Promise<GeneratedPuzzle> {
+    if (!request.quality) return generateWithPieceCount(request, onProgress)
+
+    const quality = applicableQualityRules(request.quality, {
+        strikeLimit: request.strikeLimit ?? DEFAULT_STRIKE_LIMIT,
+        allowedPieces: request.allowedPieces ?? CAPTURABLE_PIECES,
+    })
+    // Later seeds follow from the requested one, so a seeded request always ends on the same puzzle.
+    // The code of a later puzzle records its own seed.
+    const seeds = request.seed === undefined ? null : createSeededRandom(request.seed)
+    for (let attempt = 0; attempt < MAX_QUALITY_ATTEMPTS; attempt++) {
+        const seed = attempt > 0 && seeds ? Math.floor(seeds() * 0x100000000) : request.seed
+        const puzzle = await generateWithPieceCount({ ...request, seed }, onProgress)
+        if (meetsQualityRules(puzzle, quality)) return puzzle
+    }
+    throw new PuzzleGenerationError('Could not generate a puzzle that meets the quality rules')
+}
+
+/*
+    Generates a puzzle with the requested piece count, or with a target difficulty a few puzzles
+    whose piece count is moved towards the band until one is rated inside it. Every puzzle tried has to
+    meet the quality rules of the request.
+*/
+export async function generatePuzzle(
+    request: PuzzleRequest,
+    onProgress?: (attempts: number) => void,
+): Promise<GeneratedPuzzle> {
+    const { targetDifficulty } = request
+    if (!targetDifficulty) return generateWithQuality(request, onProgress)
+
+    const maxPieces = maxPieceCount(request.boardSize ?? DEFAULT_BOARD_SIZE)
+    let pieceCount = Math.min(request.pieceCount, maxPieces)
+    let closest: GeneratedPuzzle | null = null
+    let closestDistance = Infinity
+    for (let attempt = 0; attempt < MAX_DIFFICULTY_ATTEMPTS; attempt++) {
+        // Only the first puzzle uses the requested seed
+        const seed = attempt === 0 ? request.seed : undefined
+        const puzzle = await generateWithQuality({ ...request, pieceCount, seed }, onProgress)
+        if (!puzzle.difficulty) continue
+
+        const offset = offsetFromBand(puzzle.difficulty.rating, targetDifficulty)
+        const distance = Math.abs(offset)
+        if (distance < closestDistance) {
+            closest = puzzle
+            closestDistance = distance
+        }
+        if (distance === 0) break
+
+        // Too easy puzzles get more pieces and too hard ones fewer
+        const step = offset < 0 ? 2 : -2
+        pieceCount = Math.max(MIN_PIECE_COUNT, Math.min(maxPieces, pieceCount + step))
+    }
+
+    if (!closest) throw new PuzzleGenerationError('Could not rate the generated puzzles')
+    return closest
+}
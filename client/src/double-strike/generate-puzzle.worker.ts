@@ -0,0 +1,12 @@
+import { generatePuzzle, GenerateWorkerMessage, PuzzleRequest } from './generate-puzzle'
+
+const post = (message: GenerateWorkerMessage) => self.postMessage(message)
+
+self.onmessage = async (event: MessageEvent<PuzzleRequest>) => {
+    try {
+        const puzzle = await generatePuzzle(event.data, attempts => post({ type: 'progress', attempts }))
+        post({ type: 'done', puzzle })
+    } catch (err) {
+        post({ type: 'error', message: err instanceof Error ? err.message : String(err) })
+    }
+}
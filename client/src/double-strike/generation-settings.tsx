@@ -0,0 +1,169 @@
+import { Box, Chip, Group, NumberInput, Select, Stack, Switch, Text, rem } from '@mantine/core'
+import { CAPTURABLE_PIECES, SimplePiece, parsePieceSet } from './double-strike'
+import { DIFFICULTY_BANDS, DifficultyBand, parseDifficultyBand } from './difficulty'
+import { DEFAULT_QUALITY_RULES, MAX_DEAD_ENDS, QualityRules, parseQualityRules } from './quality'
+
+export type GenerationSettings = {
+    allowedPieces: SimplePiece[]
+    // null lets the generator pick the final piece
+    finalPiece: SimplePiece | null
+    requireKing: boolean
+    // null picks puzzles by piece count instead of difficulty
+    difficulty: DifficultyBand | null
+    quality: QualityRules
+}
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+    allowedPieces: CAPTURABLE_PIECES,
+    finalPiece: null,
+    requireKing: false,
+    difficulty: null,
+    quality: DEFAULT_QUALITY_RULES,
+}
+
+const SETTINGS_KEY = 'doubleStrikeChessGenerationSettings'
+
+const PIECE_NAMES: Record<SimplePiece, string> = {
+    K: 'King',
+    Q: 'Queen',
+    R: 'Rook',
+    B: 'Bishop',
+    N: 'Knight',
+    P: 'Pawn',
+}
+
+export function loadGenerationSettings(): GenerationSettings {
+    const stored = localStorage.getItem(SETTINGS_KEY)
+    if (stored) {
+        try {
+            const parsed = JSON.parse(stored)
+            const allowedPieces = Array.isArray(parsed.allowedPieces)
+                ? parsePieceSet(parsed.allowedPieces.join(''))
+                : null
+            if (allowedPieces && typeof parsed.requireKing === 'boolean') {
+                return {
+                    allowedPieces,
+                    finalPiece: allowedPieces.includes(parsed.finalPiece) ? parsed.finalPiece : null,
+                    requireKing: parsed.requireKing,
+                    difficulty: parseDifficultyBand(parsed.difficulty),
+                    quality: parseQualityRules(parsed.quality) ?? DEFAULT_QUALITY_RULES,
+                }
+            }
+        } catch (e) {
+            console.error('Failed to parse stored generation settings')
+        }
+    }
+    return DEFAULT_GENERATION_SETTINGS
+}
+
+export function saveGenerationSettings(settings: GenerationSettings) {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+}
+
+// A king on the board must be the last piece standing, so requiring one fixes the final piece
+export function settingsFinalPiece({ finalPiece, requireKing }: GenerationSettings): SimplePiece | undefined {
+    return requireKing ? 'K' : (finalPiece ?? undefined)
+}
+
+export function GenerationSettingsPanel({
+    settings,
+    strikeLimit,
+    onChange,
+}: {
+    settings: GenerationSettings
+    // Second strikes can't be required when pieces only strike once
+    strikeLimit: number
+    onChange: (settings: GenerationSettings) => void
+}) {
+    const setQuality = (quality: Partial<QualityRules>) =>
+        onChange({ ...settings, quality: { ...settings.quality, ...quality } })
+
+    const setAllowedPieces = (values: string[]) => {
+        // There has to be something to capture
+        if (values.length === 0) return
+        const allowedPieces = parsePieceSet(values.join(''))!
+        const finalPiece =
+            settings.finalPiece && allowedPieces.includes(settings.finalPiece) ? settings.finalPiece : null
+        onChange({ ...settings, allowedPieces, finalPiece })
+    }
+
+    return (
+        <Box>
+            <Text size={rem(18)} mb={8}>
+                Pieces
+            </Text>
+            <Chip.Group multiple value={settings.allowedPieces} onChange={setAllowedPieces}>
+                <Group gap="xs" mb="sm">
+                    {CAPTURABLE_PIECES.map(piece => (
+                        <Chip key={piece} value={piece} size="sm">
+                            {PIECE_NAMES[piece]}
+                        </Chip>
+                    ))}
+                </Group>
+            </Chip.Group>
+            <Group align="end">
+                <Select
+                    label="Final piece"
+                    value={settings.requireKing ? 'K' : (settings.finalPiece ?? 'random')}
+                    onChange={value =>
+                        onChange({ ...settings, finalPiece: value === 'random' ? null : (value as SimplePiece) })
+                    }
+                    data={[
+                        { value: 'random', label: 'Random' },
+                        ...(settings.requireKing ? [{ value: 'K', label: PIECE_NAMES.K }] : []),
+                        ...settings.allowedPieces.map(piece => ({ value: piece, label: PIECE_NAMES[piece] })),
+                    ]}
+                    disabled={settings.requireKing}
+                    allowDeselect={false}
+                    w={140}
+                />
+                <Switch
+                    label="Require a king"
+                    checked={settings.requireKing}
+                    onChange={event => onChange({ ...settings, requireKing: event.currentTarget.checked })}
+                    mb={8}
+                />
+            </Group>
+            <Select
+                label="Difficulty"
+                value={settings.difficulty ?? 'any'}
+                onChange={value => onChange({ ...settings, difficulty: parseDifficultyBand(value) })}
+                data={[
+                    { value: 'any', label: 'By piece count' },
+                    ...DIFFICULTY_BANDS.map(({ band, name }) => ({ value: band, label: name })),
+                ]}
+                allowDeselect={false}
+                w={180}
+                mt="sm"
+            />
+            <Text size={rem(18)} mt="md" mb={8}>
+                Quality
+            </Text>
+            <Stack gap="xs">
+                <NumberInput
+                    label="Minimum dead ends"
+                    description="Captures off the solution that make the puzzle unsolvable"
+                    value={settings.quality.minDeadEnds}
+                    onChange={value => typeof value === 'number' && setQuality({ minDeadEnds: value })}
+                    min={0}
+                    max={MAX_DEAD_ENDS}
+                    allowDecimal={false}
+                    clampBehavior="strict"
+                    w={180}
+                />
+                <Switch
+                    label="A piece strikes twice"
+                    checked={settings.quality.requireSecondStrike && strikeLimit > 1}
+                    onChange={event => setQuality({ requireSecondStrike: event.currentTarget.checked })}
+                    disabled={strikeLimit <= 1}
+                />
+                <Switch
+                    label="Require a promotion"
+                    checked={settings.quality.requirePromotion && settings.allowedPieces.includes('P')}
+                    onChange={event => setQuality({ requirePromotion: event.currentTarget.checked })}
+                    disabled={!settings.allowedPieces.includes('P')}
+                />
+            </Stack>
+        </Box>
+    )
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest'
+import { ColoredPiece, parseFenRows } from './double-strike'
+import { canCapture, canReach, canStandOn, hasLineOfSight, isPromotion, pawnDirection, promotionRank } from './movement'
+
+const white = (type: ColoredPiece['type']): ColoredPiece => ({ type, color: 'w' })
+const black = (type: ColoredPiece['type']): ColoredPiece => ({ type, color: 'b' })
+
+describe('canReach', () => {
+    const empty = parseFenRows('8/8/8/8/8/8/8/8')
+
+    it('moves knights in an L', () => {
+        expect(canReach({ x: 3, y: 4 }, { x: 5, y: 3 }, white('N'), empty)).toBe(true)
+        expect(canReach({ x: 3, y: 4 }, { x: 4, y: 2 }, white('N'), empty)).toBe(true)
+        expect(canReach({ x: 3, y: 4 }, { x: 5, y: 2 }, white('N'), empty)).toBe(false)
+    })
+
+    it('moves bishops diagonally and rooks straight', () => {
+        expect(canReach({ x: 0, y: 7 }, { x: 7, y: 0 }, white('B'), empty)).toBe(true)
+        expect(canReach({ x: 0, y: 7 }, { x: 0, y: 0 }, white('B'), empty)).toBe(false)
+        expect(canReach({ x: 0, y: 7 }, { x: 0, y: 0 }, white('R'), empty)).toBe(true)
+        expect(canReach({ x: 0, y: 7 }, { x: 7, y: 0 }, white('R'), empty)).toBe(false)
+    })
+
+    it('moves queens like a rook or a bishop', () => {
+        expect(canReach({ x: 3, y: 3 }, { x: 7, y: 7 }, white('Q'), empty)).toBe(true)
+        expect(canReach({ x: 3, y: 3 }, { x: 3, y: 7 }, white('Q'), empty)).toBe(true)
+        expect(canReach({ x: 3, y: 3 }, { x: 4, y: 5 }, white('Q'), empty)).toBe(false)
+    })
+
+    it('moves kings one square', () => {
+        expect(canReach({ x: 3, y: 3 }, { x: 4, y: 4 }, white('K'), empty)).toBe(true)
+        expect(canReach({ x: 3, y: 3 }, { x: 3, y: 5 }, white('K'), empty)).toBe(false)
+    })
+
+    it('never reaches its own square', () => {
+        expect(canReach({ x: 3, y: 3 }, { x: 3, y: 3 }, white('Q'), empty)).toBe(false)
+    })
+
+    it('reaches across the whole of a 10x10 board', () => {
+        const large = parseFenRows('10/10/10/10/10/10/10/10/10/10')
+        expect(canReach({ x: 0, y: 9 }, { x: 9, y: 0 }, white('B'), large)).toBe(true)
+        expect(canReach({ x: 9, y: 9 }, { x: 9, y: 0 }, white('R'), large)).toBe(true)
+    })
+})
+
+describe('hasLineOfSight', () => {
+    it('is blocked by a piece between the squares', () => {
+        const board = parseFenRows('8/8/8/3P4/8/8/8/8')
+        expect(hasLineOfSight({ x: 3, y: 7 }, { x: 3, y: 0 }, board)).toBe(false)
+        expect(hasLineOfSight({ x: 3, y: 7 }, { x: 3, y: 4 }, board)).toBe(true)
+        expect(hasLineOfSight({ x: 0, y: 7 }, { x: 7, y: 0 }, board)).toBe(true)
+    })
+
+    it('is clear between neighboring squares', () => {
+        const board = parseFenRows('8/8/8/3PP3/8/8/8/8')
+        expect(hasLineOfSight({ x: 3, y: 3 }, { x: 4, y: 3 }, board)).toBe(true)
+    })
+
+    it('keeps sliders from jumping over pieces', () => {
+        const board = parseFenRows('8/8/8/3P4/8/8/8/8')
+        expect(canReach({ x: 3, y: 7 }, { x: 3, y: 0 }, white('R'), board)).toBe(false)
+        expect(canReach({ x: 0, y: 6 }, { x: 6, y: 0 }, white('B'), board)).toBe(false)
+    })
+})
+
+describe('pawns', () => {
+    const empty = parseFenRows('8/8/8/8/8/8/8/8')
+
+    it('capture diagonally towards the other side', () => {
+        expect(pawnDirection('w')).toBe(-1)
+        expect(pawnDirection('b')).toBe(1)
+        expect(canReach({ x: 4, y: 4 }, { x: 3, y: 3 }, white('P'), empty)).toBe(true)
+        expect(canReach({ x: 4, y: 4 }, { x: 3, y: 5 }, white('P'), empty)).toBe(false)
+        expect(canReach({ x: 4, y: 4 }, { x: 5, y: 5 }, black('P'), empty)).toBe(true)
+        expect(canReach({ x: 4, y: 4 }, { x: 5, y: 3 }, black('P'), empty)).toBe(false)
+    })
+
+    it('never capture straight ahead', () => {
+        expect(canReach({ x: 4, y: 4 }, { x: 4, y: 3 }, white('P'), empty)).toBe(false)
+    })
+
+    it('promote on the last rank of the board', () => {
+        expect(promotionRank('w', 8)).toBe(0)
+        expect(promotionRank('b', 8)).toBe(7)
+        expect(isPromotion(white('P'), { x: 3, y: 0 }, 8)).toBe(true)
+        expect(isPromotion(white('P'), { x: 3, y: 1 }, 8)).toBe(false)
+        expect(isPromotion(black('P'), { x: 3, y: 7 }, 8)).toBe(true)
+        expect(isPromotion(white('N'), { x: 3, y: 0 }, 8)).toBe(false)
+    })
+
+    it('promote on the last rank of smaller and larger boards', () => {
+        expect(isPromotion(black('P'), { x: 2, y: 4 }, 5)).toBe(true)
+        expect(isPromotion(black('P'), { x: 2, y: 7 }, 10)).toBe(false)
+        expect(isPromotion(black('P'), { x: 2, y: 9 }, 10)).toBe(true)
+    })
+
+    it('never stand on the first or last rank', () => {
+        expect(canStandOn('P', { x: 0, y: 0 }, 6)).toBe(false)
+        expect(canStandOn('P', { x: 0, y: 5 }, 6)).toBe(false)
+        expect(canStandOn('P', { x: 0, y: 4 }, 6)).toBe(true)
+        expect(canStandOn('N', { x: 0, y: 0 }, 6)).toBe(true)
+    })
+})
+
+describe('canCapture', () => {
+    it('needs a piece on both squares', () => {
+        const board = parseFenRows('8/8/8/8/8/8/8/R7')
+        expect(canCapture({ x: 0, y: 7 }, { x: 0, y: 0 }, board, 'none')).toBe(false)
+        expect(canCapture({ x: 0, y: 0 }, { x: 0, y: 7 }, board, 'none')).toBe(false)
+    })
+
+    it('never captures a king', () => {
+        const board = parseFenRows('K7/R7/8/8/8/8/8/8')
+        expect(canCapture({ x: 0, y: 1 }, { x: 0, y: 0 }, board, 'none')).toBe(false)
+        expect(canCapture({ x: 0, y: 0 }, { x: 0, y: 1 }, board, 'none')).toBe(true)
+    })
+
+    it('captures either color in single color puzzles', () => {
+        const board = parseFenRows('N7/8/8/8/8/8/8/R7')
+        expect(canCapture({ x: 0, y: 7 }, { x: 0, y: 0 }, board, 'none')).toBe(true)
+    })
+
+    it('only captures the other color in the two color variants', () => {
+        const board = parseFenRows('R6n/8/8/8/8/8/8/N7')
+        expect(canCapture({ x: 0, y: 0 }, { x: 0, y: 7 }, board, 'opposite')).toBe(false)
+        expect(canCapture({ x: 0, y: 0 }, { x: 7, y: 0 }, board, 'opposite')).toBe(true)
+        expect(canCapture({ x: 0, y: 0 }, { x: 7, y: 0 }, board, 'alternate')).toBe(true)
+    })
+
+    it('is blocked by pieces in the way', () => {
+        const board = parseFenRows('Q1P1n3/8/8/8/8/8/8/8')
+        expect(canCapture({ x: 0, y: 0 }, { x: 4, y: 0 }, board, 'none')).toBe(false)
+        expect(canCapture({ x: 0, y: 0 }, { x: 2, y: 0 }, board, 'none')).toBe(true)
+    })
+
+    it('works on 5x5 and 10x10 boards', () => {
+        const small = parseFenRows('5/1p3/P4/5/5')
+        expect(canCapture({ x: 0, y: 2 }, { x: 1, y: 1 }, small, 'none')).toBe(true)
+        const large = parseFenRows('q9/10/10/10/10/10/10/10/10/9R')
+        expect(canCapture({ x: 9, y: 9 }, { x: 0, y: 0 }, large, 'none')).toBe(false)
+        expect(canCapture({ x: 0, y: 0 }, { x: 9, y: 9 }, large, 'none')).toBe(true)
+    })
+})
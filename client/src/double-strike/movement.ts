@@ -0,0 +1,82 @@
+import { ColorRule, ColoredPiece, PieceColor, Position, SimplePiece } from './double-strike'
+
+/*
+    How pieces capture in Double Strike, shared by the generator, the solver and the board.
+    Boards are square and indexed board[y][x] with y = 0 on the last rank. Any colored piece type works,
+    so callers can keep their own bookkeeping such as ids and move counts on the pieces.
+*/
+
+export type MovementBoard = readonly (readonly (ColoredPiece | null)[])[]
+
+export const PROMOTION_PIECES: SimplePiece[] = ['Q', 'R', 'B', 'N']
+
+// White pawns move up the board towards y = 0, black pawns move down
+export function pawnDirection(color: PieceColor): number {
+    return color === 'w' ? -1 : 1
+}
+
+export function promotionRank(color: PieceColor, boardSize: number): number {
+    return color === 'w' ? 0 : boardSize - 1
+}
+
+// Pawns can never stand on the first or last rank
+export function canStandOn(type: SimplePiece, pos: Position, boardSize: number): boolean {
+    return type !== 'P' || (pos.y > 0 && pos.y < boardSize - 1)
+}
+
+// Whether every square strictly between two squares on a line is empty
+export function hasLineOfSight(from: Position, to: Position, board: MovementBoard): boolean {
+    const stepX = Math.sign(to.x - from.x)
+    const stepY = Math.sign(to.y - from.y)
+
+    let x = from.x + stepX
+    let y = from.y + stepY
+    while (x !== to.x || y !== to.y) {
+        if (board[y][x] !== null) return false // Path is blocked
+        x += stepX
+        y += stepY
+    }
+    return true
+}
+
+// Whether the piece can capture from one square to the other, ignoring what stands on the two squares
+export function canReach(from: Position, to: Position, piece: ColoredPiece, board: MovementBoard): boolean {
+    const dx = Math.abs(from.x - to.x)
+    const dy = Math.abs(from.y - to.y)
+    if (dx === 0 && dy === 0) return false
+
+    switch (piece.type) {
+        case 'P':
+            return dx === 1 && to.y - from.y === pawnDirection(piece.color)
+        case 'N':
+            return (dx === 2 && dy === 1) || (dx === 1 && dy === 2)
+        case 'B':
+            return dx === dy && hasLineOfSight(from, to, board)
+        case 'R':
+            return (dx === 0 || dy === 0) && hasLineOfSight(from, to, board)
+        case 'Q':
+            return (dx === dy || dx === 0 || dy === 0) && hasLineOfSight(from, to, board)
+        case 'K':
+            return dx <= 1 && dy <= 1
+        default:
+            return false
+    }
+}
+
+/*
+    Whether the piece on one square may capture the piece on the other. Kings can't be captured,
+    and in the two color variants only pieces of the other color can.
+*/
+export function canCapture(from: Position, to: Position, board: MovementBoard, colorRule: ColorRule): boolean {
+    const piece = board[from.y][from.x]
+    const target = board[to.y][to.x]
+    if (!piece || !target) return false
+    if (target.type === 'K') return false
+    if (colorRule !== 'none' && target.color === piece.color) return false
+    return canReach(from, to, piece, board)
+}
+
+// A pawn capturing onto its last rank must promote
+export function isPromotion(piece: ColoredPiece, to: Position, boardSize: number): boolean {
+    return piece.type === 'P' && to.y === promotionRank(piece.color, boardSize)
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_RULES } from './double-strike'
+import { replaySolution, toSanSolution, upgradeSolution } from './notation'
+
+describe('upgradeSolution', () => {
+    it('rewrites pawn captures that only name the file', () => {
+        expect(upgradeSolution('8/8/8/3N4/4P3/8/8/8 w - - 0 1', ['exd5'])).toEqual(['e4xd5'])
+    })
+
+    it('rewrites promotions in both older formats', () => {
+        const fen = '3N4/4P3/8/8/8/8/8/3R4 w - - 0 1'
+        expect(upgradeSolution(fen, ['exd8=Q', 'Qd8xd1'])).toEqual(['e7xd8=Q', 'Qd8xd1'])
+        expect(upgradeSolution(fen, ['Qe7xd8', 'Qd8xd1'])).toEqual(['e7xd8=Q', 'Qd8xd1'])
+    })
+
+    it('keeps long notation as it is', () => {
+        const solution = ['e7xd8=Q', 'Qd8xd1']
+        const fen = '3N4/4P3/8/8/8/8/8/3R4 w - - 0 1'
+        expect(upgradeSolution(fen, solution)).toEqual(solution)
+        expect(replaySolution(fen, upgradeSolution(fen, ['exd8=Q', 'Qd8xd1'])!)).toHaveLength(2)
+    })
+
+    it('gives up on solutions that do not fit the position', () => {
+        expect(upgradeSolution('8/8/8/3N4/4P3/8/8/8 w - - 0 1', ['fxd5'])).toBeNull()
+        expect(upgradeSolution('8/8/8/3N4/4P3/8/8/8 w - - 0 1', ['Bd5xe4'])).toBeNull()
+    })
+})
+
+describe('toSanSolution', () => {
+    const fen = 'R3N3/8/8/8/4R3/8/8/4N3 w - - 0 1'
+    const solution = ['Re4xe1', 'Ra8xe8']
+
+    it('names the file when another piece could make the same capture', () => {
+        expect(toSanSolution(fen, solution, DEFAULT_RULES)).toEqual(['Rxe1', 'Raxe8'])
+    })
+
+    it('ignores pieces that have no strikes left', () => {
+        expect(toSanSolution(fen, solution, { ...DEFAULT_RULES, strikeLimit: 1 })).toEqual(['Rxe1', 'Rxe8'])
+    })
+
+    it('writes pawn captures with the file they start from', () => {
+        expect(toSanSolution('3N4/4P3/8/8/8/8/8/3R4 w - - 0 1', ['e7xd8=Q', 'Qd8xd1'], DEFAULT_RULES)).toEqual([
+            'exd8=Q',
+            'Qxd1',
+        ])
+    })
+})
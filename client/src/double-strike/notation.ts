@@ -0,0 +1,250 @@
+import {
+    DEFAULT_BOARD_SIZE,
+    Move,
+    Position,
+    SimplePiece,
+    VariantRules,
+    algebraicToPosition,
+    boardSizeName,
+    boardToFen,
+    colorRuleName,
+    positionToAlgebraic,
+    sideToMove,
+    strikeLimitName,
+} from './double-strike'
+import { boardFromFen, getLegalCaptures } from './double-strike-solver'
+import { canCapture, canReach, isPromotion } from './movement'
+
+/*
+    Solutions are stored and shown in long algebraic notation, e.g. Bd7xg4 or e7xd8=Q, which names the
+    square every capture starts from. SAN-like notation, e.g. Bxg4 or exd8=Q, is worked out by replaying
+    the solution from the starting position and is used when exporting to other tools.
+*/
+
+export type LongMove = {
+    from: Position
+    to: Position
+    // The piece before the capture, a pawn for promotions
+    piece: SimplePiece
+    promotion?: SimplePiece
+}
+
+export type ReplayStep = {
+    // Piece placement after the move
+    fen: string
+    move: LongMove
+}
+
+export type PuzzleExport = {
+    fen: string
+    solution: string[]
+    rules: VariantRules
+    // Puzzle code of a generated puzzle
+    code?: string
+    url?: string
+}
+
+// Files past h and two digit ranks only appear on boards larger than 8x8
+const LONG_MOVE_PATTERN = /^([KQRBN]?)([a-z]\d{1,2})x([a-z]\d{1,2})(?:=([QRBN]))?$/
+// Pawn captures in solutions shared before long notation, e.g. exd8=Q
+const SHORT_PAWN_MOVE_PATTERN = /^([a-z])x([a-z]\d{1,2})(?:=([QRBN]))?$/
+
+// Promotions record the promoted piece as the moving piece, so the pawn is written before the suffix
+export function formatLongMove(move: Move, boardSize: number = DEFAULT_BOARD_SIZE): string {
+    const from = positionToAlgebraic(move.from, boardSize)
+    const to = positionToAlgebraic(move.to, boardSize)
+    if (move.wasPromotion) return `${from}x${to}=${move.piece}`
+    return `${move.piece === 'P' ? '' : move.piece}${from}x${to}`
+}
+
+export function formatSolution(moves: Move[], boardSize: number = DEFAULT_BOARD_SIZE): string[] {
+    return moves.map(move => formatLongMove(move, boardSize))
+}
+
+export function parseLongMove(notation: string, boardSize: number = DEFAULT_BOARD_SIZE): LongMove | null {
+    const match = LONG_MOVE_PATTERN.exec(notation)
+    if (!match) return null
+    const [, piece, from, to, promotion] = match
+    return {
+        from: algebraicToPosition(from, boardSize),
+        to: algebraicToPosition(to, boardSize),
+        piece: (piece || 'P') as SimplePiece,
+        promotion: promotion as SimplePiece | undefined,
+    }
+}
+
+/*
+    Rewrites a solution from an older share link in long notation. Those wrote pawn captures with
+    only the file, e.g. exd8=Q, and some promotions as the promoted piece from the pawn's square,
+    e.g. Qe7xd8. Returns null when the solution doesn't fit the position.
+*/
+export function upgradeSolution(fen: string, solution: string[]): string[] | null {
+    const board = boardFromFen(fen)
+    const boardSize = board.length
+    const upgraded: string[] = []
+
+    for (const notation of solution) {
+        let move = parseLongMove(notation, boardSize)
+        const shortPawnMove = SHORT_PAWN_MOVE_PATTERN.exec(notation)
+        if (!move && shortPawnMove) {
+            const [, file, square, promotion] = shortPawnMove
+            const to = algebraicToPosition(square, boardSize)
+            const x = file.charCodeAt(0) - 97
+            const from = board
+                .map((_, y) => ({ x, y }))
+                .find(pos => {
+                    const pawn = board[pos.y][pos.x]
+                    return pawn?.type === 'P' && canReach(pos, to, pawn, board)
+                })
+            if (from) move = { from, to, piece: 'P', promotion: promotion as SimplePiece | undefined }
+        }
+        if (!move) return null
+
+        const { from, to } = move
+        const piece = board[from.y]?.[from.x]
+        if (!piece || !board[to.y]?.[to.x]) return null
+        if (piece.type === 'P' && move.piece !== 'P' && isPromotion(piece, to, boardSize)) {
+            move = { from, to, piece: 'P', promotion: move.piece }
+        }
+        if (piece.type !== move.piece) return null
+
+        const promotion = move.promotion
+        upgraded.push(
+            formatLongMove(
+                {
+                    from,
+                    to,
+                    captured: board[to.y][to.x]!.type,
+                    piece: promotion ?? piece.type,
+                    color: piece.color,
+                    pieceId: piece.id,
+                    wasPromotion: !!promotion,
+                },
+                boardSize,
+            ),
+        )
+        board[to.y][to.x] = { ...piece, type: promotion ?? piece.type }
+        board[from.y][from.x] = null
+    }
+
+    return upgraded
+}
+
+// The position after each move of a solution, or null when a move doesn't fit the position
+export function replaySolution(fen: string, solution: string[]): ReplayStep[] | null {
+    const board = boardFromFen(fen)
+    const steps: ReplayStep[] = []
+
+    for (const notation of solution) {
+        const move = parseLongMove(notation, board.length)
+        if (!move) return null
+        const { from, to, promotion } = move
+        // Squares off the board come from a solution for a different board size
+        const piece = board[from.y]?.[from.x]
+        if (!piece || piece.type !== move.piece || !board[to.y]?.[to.x]) return null
+
+        board[to.y][to.x] = { ...piece, type: promotion ?? piece.type }
+        board[from.y][from.x] = null
+        steps.push({ fen: boardToFen(board), move })
+    }
+
+    return steps
+}
+
+/*
+    Converts a long algebraic solution to SAN-like notation by replaying it on the position.
+    A piece's starting file or rank is only given when another piece of the same kind could legally make the
+    same capture, so pieces without strikes left or of the side not to move don't count.
+    Returns null when the solution doesn't fit the position.
+*/
+export function toSanSolution(fen: string, solution: string[], rules: VariantRules): string[] | null {
+    const { colorRule } = rules
+    const board = boardFromFen(fen)
+    const boardSize = board.length
+    const sanMoves: string[] = []
+
+    for (const [index, notation] of solution.entries()) {
+        const move = parseLongMove(notation, boardSize)
+        if (!move) return null
+        const { from, to, promotion } = move
+        const piece = board[from.y]?.[from.x]
+        if (!piece || piece.type !== move.piece || !board[to.y]?.[to.x]) return null
+        if (!canCapture(from, to, board, colorRule) || isPromotion(piece, to, boardSize) !== !!promotion) return null
+
+        const square = positionToAlgebraic(to, boardSize)
+        if (piece.type === 'P') {
+            sanMoves.push(`${positionToAlgebraic(from, boardSize)[0]}x${square}${promotion ? `=${promotion}` : ''}`)
+        } else {
+            const rivals: Position[] = getLegalCaptures(board, rules, sideToMove(index))
+                .filter(capture => capture.to.x === to.x && capture.to.y === to.y && capture.pieceId !== piece.id)
+                .filter(capture => capture.piece === piece.type && capture.color === piece.color)
+                .map(capture => capture.from)
+            const fromSquare = positionToAlgebraic(from, boardSize)
+            let disambiguation = ''
+            if (rivals.length > 0) {
+                if (rivals.every(rival => rival.x !== from.x)) disambiguation = fromSquare[0]
+                else if (rivals.every(rival => rival.y !== from.y)) disambiguation = fromSquare.slice(1)
+                else disambiguation = fromSquare
+            }
+            sanMoves.push(`${piece.type}${disambiguation}x${square}`)
+        }
+
+        board[to.y][to.x] = { ...piece, type: promotion ?? piece.type, moves: piece.moves + 1 }
+        board[from.y][from.x] = null
+    }
+
+    return sanMoves
+}
+
+function rulesDescription({ strikeLimit, colorRule, boardSize }: VariantRules): string {
+    const description = `${strikeLimitName(strikeLimit)} Strike, ${colorRuleName(colorRule).toLowerCase()}`
+    return boardSize === DEFAULT_BOARD_SIZE ? description : `${description}, ${boardSizeName(boardSize)}`
+}
+
+// Falls back to long algebraic notation when the solution can't be replayed
+function exportMoves({ fen, solution, rules }: PuzzleExport): string[] {
+    return toSanSolution(fen, solution, rules) ?? solution
+}
+
+/*
+    One EPD record: the position, the first capture as the best move, the full solution as the
+    predicted variation and the variant's rules as a comment.
+*/
+export function puzzleToEpd(puzzle: PuzzleExport): string {
+    const [placement, side] = puzzle.fen.split(' ')
+    const moves = exportMoves(puzzle)
+    const operations = [
+        moves.length > 0 && `bm ${moves[0]}`,
+        moves.length > 0 && `pv ${moves.join(' ')}`,
+        `id "${puzzle.code ? `Double Strike ${puzzle.code}` : 'Double Strike'}"`,
+        `c0 "${rulesDescription(puzzle.rules)}"`,
+    ].filter(Boolean)
+    return `${placement} ${side} - - ${operations.join('; ')};`
+}
+
+// Every capture gets its own number, except in the alternating variant where White and Black share one
+export function puzzleToPgn(puzzle: PuzzleExport): string {
+    const moves = exportMoves(puzzle)
+    const alternating = puzzle.rules.colorRule === 'alternate'
+    const moveText = moves
+        .map((move, index) => {
+            if (!alternating) return `${index + 1}. ${move}`
+            return sideToMove(index) === 'w' ? `${index / 2 + 1}. ${move}` : move
+        })
+        .join(' ')
+
+    const tags: [string, string][] = [
+        ['Event', puzzle.code ? `Double Strike ${puzzle.code}` : 'Double Strike'],
+        ['Site', puzzle.url ?? '?'],
+        ['Date', '????.??.??'],
+        ['Round', '-'],
+        ['White', '?'],
+        ['Black', '?'],
+        ['Result', '*'],
+        ['Variant', rulesDescription(puzzle.rules)],
+        ['SetUp', '1'],
+        ['FEN', puzzle.fen],
+    ]
+    const header = tags.map(([name, value]) => `[${name} "${value}"]`).join('\n')
+    return `${header}\n\n${moveText ? `${moveText} *` : '*'}\n`
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { decodePuzzleCode, encodePuzzleCode } from './puzzle-code'
+
+describe('puzzle codes', () => {
+    it('round-trips through encoding', () => {
+        for (const code of [
+            { pieceCount: 3, finalPiece: 'K' as const, seed: 0 },
+            { pieceCount: 10, finalPiece: 'Q' as const, seed: 123456789 },
+            { pieceCount: 27, finalPiece: 'P' as const, seed: 0xffffffff },
+        ]) {
+            expect(decodePuzzleCode(encodePuzzleCode(code))).toEqual(code)
+        }
+    })
+
+    it('writes the seed in base 36', () => {
+        expect(encodePuzzleCode({ pieceCount: 10, finalPiece: 'Q', seed: 35 })).toBe('10Q-z')
+        expect(decodePuzzleCode(' 10Q-z ')).toEqual({ pieceCount: 10, finalPiece: 'Q', seed: 35 })
+    })
+
+    it('rejects codes it could not have written', () => {
+        expect(decodePuzzleCode('10X-z')).toBeNull()
+        expect(decodePuzzleCode('10Q')).toBeNull()
+        expect(decodePuzzleCode('100Q-z')).toBeNull()
+        // Above the largest 32 bit seed
+        expect(decodePuzzleCode('10Q-zzzzzzz')).toBeNull()
+    })
+})
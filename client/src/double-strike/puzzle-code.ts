@@ -0,0 +1,32 @@
+import { SimplePiece } from './double-strike'
+
+/*
+    A puzzle code identifies a generated puzzle by the inputs that reproduce it,
+    e.g. "10Q-1k3x9z" is a 10 piece puzzle ending on a queen generated from seed "1k3x9z" (base 36).
+*/
+
+export type PuzzleCode = {
+    pieceCount: number
+    finalPiece: SimplePiece
+    seed: number
+}
+
+const PUZZLE_CODE_PATTERN = /^(\d{1,2})([KQRBNP])-([0-9a-z]{1,7})$/
+
+export function encodePuzzleCode({ pieceCount, finalPiece, seed }: PuzzleCode): string {
+    return `${pieceCount}${finalPiece}-${seed.toString(36)}`
+}
+
+export function decodePuzzleCode(code: string): PuzzleCode | null {
+    const match = PUZZLE_CODE_PATTERN.exec(code.trim())
+    if (!match) return null
+
+    const seed = parseInt(match[3], 36)
+    if (seed > 0xffffffff) return null
+
+    return {
+        pieceCount: parseInt(match[1]),
+        finalPiece: match[2] as SimplePiece,
+        seed,
+    }
+}
@@ -0,0 +1,170 @@
+import {
+    CAPTURABLE_PIECES,
+    DEFAULT_RULES,
+    SimplePiece,
+    VariantRules,
+    parsePieceSet,
+    parseRuleParams,
+} from './double-strike'
+import { Difficulty, DifficultyBand } from './difficulty'
+import { BAND_PIECE_COUNTS, GeneratedPuzzle, PuzzleRequest } from './generate-puzzle'
+import { decodePuzzleCode } from './puzzle-code'
+import { QualityRules, applicableQualityRules, meetsQualityRules } from './quality'
+
+/*
+    Puzzle packs are generated ahead of time by scripts/build-puzzle-pack.ts, so puzzles can be shown
+    instantly instead of waiting for the generator. The bundled pack is served from public/ and live
+    generation takes over for settings the pack doesn't cover and once its puzzles have been played.
+*/
+
+export const PACK_VERSION = 1
+export const BUNDLED_PACK_URL = '/double-strike-pack.json'
+
+const USED_PUZZLES_KEY = 'doubleStrikePackUsed'
+
+export type PackedPuzzle = {
+    code: string
+    fen: string
+    solution: string[]
+    difficulty: Difficulty
+}
+
+export type PackGroup = {
+    pieceCount: number
+    band: DifficultyBand
+    puzzles: PackedPuzzle[]
+}
+
+export type PuzzlePack = {
+    version: number
+    // Rules as URL search params, unlimited strikes don't survive JSON
+    rules: string
+    // Allowed pieces as their letters, e.g. "QRBNP"
+    pieces: string
+    // Every puzzle in the pack meets these
+    quality: QualityRules
+    groups: PackGroup[]
+}
+
+let bundledPack: Promise<PuzzlePack | null> | null = null
+
+function sameRules(a: VariantRules, b: VariantRules): boolean {
+    return a.strikeLimit === b.strikeLimit && a.colorRule === b.colorRule && a.boardSize === b.boardSize
+}
+
+function samePieces(a: SimplePiece[], b: SimplePiece[]): boolean {
+    return a.length === b.length && a.every(piece => b.includes(piece))
+}
+
+export function packRules(pack: PuzzlePack): VariantRules {
+    return parseRuleParams(new URLSearchParams(pack.rules))
+}
+
+export function packPieces(pack: PuzzlePack): SimplePiece[] {
+    return parsePieceSet(pack.pieces) ?? CAPTURABLE_PIECES
+}
+
+// Only checks the shape, the puzzles themselves were checked when the pack was built
+export function parsePuzzlePack(value: unknown): PuzzlePack | null {
+    if (typeof value !== 'object' || value === null) return null
+    const { version, rules, pieces, quality, groups } = value as Record<string, unknown>
+    if (version !== PACK_VERSION || typeof rules !== 'string' || typeof pieces !== 'string') return null
+    if (typeof quality !== 'object' || quality === null || !Array.isArray(groups)) return null
+    const validGroups = groups.every(
+        group =>
+            typeof group?.pieceCount === 'number' &&
+            typeof group.band === 'string' &&
+            Array.isArray(group.puzzles) &&
+            group.puzzles.every(
+                (puzzle: Partial<PackedPuzzle>) =>
+                    typeof puzzle?.code === 'string' &&
+                    typeof puzzle.fen === 'string' &&
+                    Array.isArray(puzzle.solution) &&
+                    typeof puzzle.difficulty?.rating === 'number',
+            ),
+    )
+    return validGroups ? (value as PuzzlePack) : null
+}
+
+// Fetched once per page load, a missing or broken pack leaves everything to live generation
+export function loadBundledPack(): Promise<PuzzlePack | null> {
+    if (!bundledPack) {
+        bundledPack = fetch(BUNDLED_PACK_URL)
+            .then(response => (response.ok ? response.json() : null))
+            .then(parsePuzzlePack)
+            .catch(() => {
+                console.error('Failed to load the bundled puzzle pack')
+                return null
+            })
+    }
+    return bundledPack
+}
+
+function loadUsedPuzzles(): Set<string> {
+    const stored = localStorage.getItem(USED_PUZZLES_KEY)
+    if (stored) {
+        try {
+            const parsed = JSON.parse(stored)
+            if (Array.isArray(parsed)) return new Set(parsed.filter(code => typeof code === 'string'))
+        } catch (e) {
+            console.error('Failed to parse stored pack puzzles')
+        }
+    }
+    return new Set()
+}
+
+function markUsed(code: string) {
+    const used = loadUsedPuzzles()
+    used.add(code)
+    localStorage.setItem(USED_PUZZLES_KEY, JSON.stringify([...used]))
+}
+
+/*
+    Takes an unplayed puzzle from the pack that matches the request, or null when the pack has none
+    left. A puzzle is only taken once, so the pack runs out and generation takes over.
+*/
+export function takePackedPuzzle(pack: PuzzlePack, request: PuzzleRequest): GeneratedPuzzle | null {
+    const rules = packRules(pack)
+    const requestRules: VariantRules = {
+        strikeLimit: request.strikeLimit ?? DEFAULT_RULES.strikeLimit,
+        colorRule: request.colorRule ?? DEFAULT_RULES.colorRule,
+        boardSize: request.boardSize ?? DEFAULT_RULES.boardSize,
+    }
+    const allowedPieces = request.allowedPieces ?? CAPTURABLE_PIECES
+    if (!sameRules(rules, requestRules) || !samePieces(packPieces(pack), allowedPieces)) return null
+
+    const quality =
+        request.quality && applicableQualityRules(request.quality, { strikeLimit: rules.strikeLimit, allowedPieces })
+    const used = loadUsedPuzzles()
+    // A band holds puzzles of many sizes, the ones closest to the band's usual piece count come first
+    const { targetDifficulty } = request
+    const groups = targetDifficulty
+        ? pack.groups
+              .filter(group => group.band === targetDifficulty)
+              .sort(
+                  (a, b) =>
+                      Math.abs(a.pieceCount - BAND_PIECE_COUNTS[targetDifficulty]) -
+                      Math.abs(b.pieceCount - BAND_PIECE_COUNTS[targetDifficulty]),
+              )
+        : pack.groups.filter(group => group.pieceCount === request.pieceCount)
+    for (const group of groups) {
+        const puzzle = group.puzzles.find(
+            ({ code, solution, difficulty }) =>
+                !used.has(code) &&
+                (!request.finalPiece || decodePuzzleCode(code)?.finalPiece === request.finalPiece) &&
+                (!quality || meetsQualityRules({ solution, difficulty }, quality)),
+        )
+        if (puzzle) {
+            markUsed(puzzle.code)
+            return {
+                fen: puzzle.fen,
+                solution: puzzle.solution,
+                code: puzzle.code,
+                pieceCount: group.pieceCount,
+                rules,
+                difficulty: puzzle.difficulty,
+            }
+        }
+    }
+    return null
+}
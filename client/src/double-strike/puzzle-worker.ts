@@ -0,0 +1,94 @@
+import { MIN_PIECE_COUNT } from './double-strike'
+import { GeneratedPuzzle, GenerateWorkerMessage, PuzzleRequest } from './generate-puzzle'
+
+export type GenerationProgress = {
+    pieceCount: number
+    attempts: number
+}
+
+export type WorkerGenerationOptions = {
+    onProgress?: (progress: GenerationProgress) => void
+    signal?: AbortSignal
+    // Try one piece fewer when a piece count takes longer than this, null to never fall back
+    fallbackAfterMs?: number | null
+}
+
+const DEFAULT_FALLBACK_MS = 8000
+
+export function isAbortError(err: unknown): boolean {
+    return err instanceof DOMException && err.name === 'AbortError'
+}
+
+// Resolves with null when generation fails or times out
+function runWorker(
+    request: PuzzleRequest,
+    { onProgress, signal }: WorkerGenerationOptions,
+    timeoutMs: number | null,
+): Promise<GeneratedPuzzle | null> {
+    return new Promise((resolve, reject) => {
+        const worker = new Worker(new URL('./generate-puzzle.worker.ts', import.meta.url), { type: 'module' })
+        let timeoutId: number | undefined
+
+        const cleanup = () => {
+            worker.terminate()
+            clearTimeout(timeoutId)
+            signal?.removeEventListener('abort', onAbort)
+        }
+
+        const onAbort = () => {
+            cleanup()
+            reject(new DOMException('Puzzle generation cancelled', 'AbortError'))
+        }
+
+        if (signal?.aborted) {
+            onAbort()
+            return
+        }
+        signal?.addEventListener('abort', onAbort)
+
+        if (timeoutMs !== null) {
+            timeoutId = window.setTimeout(() => {
+                cleanup()
+                resolve(null)
+            }, timeoutMs)
+        }
+
+        worker.onmessage = (event: MessageEvent<GenerateWorkerMessage>) => {
+            const message = event.data
+            if (message.type === 'progress') {
+                onProgress?.({ pieceCount: request.pieceCount, attempts: message.attempts })
+            } else if (message.type === 'done') {
+                cleanup()
+                resolve(message.puzzle)
+            } else {
+                cleanup()
+                resolve(null)
+            }
+        }
+
+        worker.onerror = event => {
+            cleanup()
+            reject(new Error(event.message))
+        }
+
+        worker.postMessage(request)
+    })
+}
+
+/*
+    Generates a puzzle off the main thread. Unless fallback is disabled, a piece count that fails
+    or takes too long is retried with one piece fewer, so the returned puzzle may be smaller than requested.
+*/
+export async function generatePuzzleInWorker(
+    request: PuzzleRequest,
+    options: WorkerGenerationOptions = {},
+): Promise<GeneratedPuzzle> {
+    const { fallbackAfterMs = DEFAULT_FALLBACK_MS } = options
+
+    for (let pieceCount = request.pieceCount; ; pieceCount--) {
+        const canFallBack = fallbackAfterMs !== null && pieceCount > MIN_PIECE_COUNT
+        const puzzle = await runWorker({ ...request, pieceCount }, options, canFallBack ? fallbackAfterMs : null)
+        if (puzzle) return puzzle
+        if (!canFallBack) throw new Error('Could not generate a valid puzzle')
+    }
+}
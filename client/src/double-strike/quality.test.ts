@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { Difficulty } from './difficulty'
+import { applicableQualityRules, hasSecondStrike, meetsQualityRules, parseQualityRules } from './quality'
+
+const rated = (deadEnds: number): Difficulty => ({
+    rating: 1000,
+    band: 'beginner',
+    factors: {
+        captures: 2,
+        branchingFactor: 2,
+        deadEnds,
+        undecided: 0,
+        alternatives: deadEnds,
+        forcedMoves: 0,
+        promotions: 0,
+        solutionCount: 1,
+    },
+})
+
+const rules = { minDeadEnds: 0, requireSecondStrike: false, requirePromotion: false }
+
+describe('hasSecondStrike', () => {
+    it('finds a capture that starts where an earlier one ended', () => {
+        expect(hasSecondStrike(['Ra1xa4', 'Ra4xa8'])).toBe(true)
+        expect(hasSecondStrike(['Ra8xa4', 'Ra1xa4'])).toBe(false)
+    })
+})
+
+describe('meetsQualityRules', () => {
+    it('needs enough dead ends on a rated puzzle', () => {
+        const quality = { ...rules, minDeadEnds: 2 }
+        expect(meetsQualityRules({ solution: [], difficulty: rated(2) }, quality)).toBe(true)
+        expect(meetsQualityRules({ solution: [], difficulty: rated(1) }, quality)).toBe(false)
+        expect(meetsQualityRules({ solution: [], difficulty: null }, quality)).toBe(false)
+    })
+
+    it('checks second strikes and promotions along the solution', () => {
+        const solution = ['e7xd8=Q', 'Qd8xd1']
+        expect(meetsQualityRules({ solution, difficulty: null }, { ...rules, requirePromotion: true })).toBe(true)
+        expect(meetsQualityRules({ solution, difficulty: null }, { ...rules, requireSecondStrike: true })).toBe(true)
+        expect(
+            meetsQualityRules(
+                { solution: ['Ra8xa4', 'Ra1xa4'], difficulty: null },
+                { ...rules, requirePromotion: true },
+            ),
+        ).toBe(false)
+    })
+})
+
+describe('applicableQualityRules', () => {
+    it('turns off rules no puzzle could meet', () => {
+        const quality = { minDeadEnds: 1, requireSecondStrike: true, requirePromotion: true }
+        expect(applicableQualityRules(quality, { strikeLimit: 1, allowedPieces: ['N', 'B'] })).toEqual({
+            minDeadEnds: 1,
+            requireSecondStrike: false,
+            requirePromotion: false,
+        })
+        expect(applicableQualityRules(quality, { strikeLimit: 2, allowedPieces: ['P'] })).toEqual(quality)
+    })
+})
+
+describe('parseQualityRules', () => {
+    it('accepts stored rules and rejects broken ones', () => {
+        expect(parseQualityRules(rules)).toEqual(rules)
+        expect(parseQualityRules({ ...rules, minDeadEnds: 1.5 })).toBeNull()
+        expect(parseQualityRules({ ...rules, minDeadEnds: 99 })).toBeNull()
+        expect(parseQualityRules({ minDeadEnds: 1 })).toBeNull()
+        expect(parseQualityRules(null)).toBeNull()
+    })
+})
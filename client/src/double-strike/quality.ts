@@ -0,0 +1,70 @@
+import { SimplePiece } from './double-strike'
+import { Difficulty } from './difficulty'
+import { parseLongMove } from './notation'
+
+/*
+    Rules a generated puzzle has to meet before it is shown. Without them many puzzles can be solved
+    by capturing in any order, so by default at least one capture along the solution must lose.
+*/
+
+export type QualityRules = {
+    // Captures off the solution that leave an unsolvable position
+    minDeadEnds: number
+    // At least one piece captures a second time
+    requireSecondStrike: boolean
+    requirePromotion: boolean
+}
+
+export const DEFAULT_QUALITY_RULES: QualityRules = {
+    minDeadEnds: 1,
+    requireSecondStrike: false,
+    requirePromotion: false,
+}
+
+export const MAX_DEAD_ENDS = 20
+
+type QualityPuzzle = {
+    solution: string[]
+    difficulty: Difficulty | null
+}
+
+export function parseQualityRules(value: unknown): QualityRules | null {
+    if (typeof value !== 'object' || value === null) return null
+    const { minDeadEnds, requireSecondStrike, requirePromotion } = value as Record<string, unknown>
+    if (typeof minDeadEnds !== 'number' || !Number.isInteger(minDeadEnds)) return null
+    if (minDeadEnds < 0 || minDeadEnds > MAX_DEAD_ENDS) return null
+    if (typeof requireSecondStrike !== 'boolean' || typeof requirePromotion !== 'boolean') return null
+    return { minDeadEnds, requireSecondStrike, requirePromotion }
+}
+
+// Turns off rules no puzzle could meet, like promotions without pawns or second strikes with one strike per piece
+export function applicableQualityRules(
+    rules: QualityRules,
+    { strikeLimit, allowedPieces }: { strikeLimit: number; allowedPieces: SimplePiece[] },
+): QualityRules {
+    return {
+        ...rules,
+        requireSecondStrike: rules.requireSecondStrike && strikeLimit > 1,
+        requirePromotion: rules.requirePromotion && allowedPieces.includes('P'),
+    }
+}
+
+// A capture starting where an earlier capture ended is the same piece moving again
+export function hasSecondStrike(solution: string[]): boolean {
+    const reached = new Set<string>()
+    for (const notation of solution) {
+        const move = parseLongMove(notation)
+        if (!move) return false
+        if (reached.has(`${move.from.x},${move.from.y}`)) return true
+        reached.add(`${move.to.x},${move.to.y}`)
+    }
+    return false
+}
+
+export function meetsQualityRules({ solution, difficulty }: QualityPuzzle, rules: QualityRules): boolean {
+    // Dead ends can only be counted on rated puzzles
+    if (rules.minDeadEnds > 0 && (difficulty?.factors.deadEnds ?? 0) < rules.minDeadEnds) return false
+    if (rules.requireSecondStrike && !hasSecondStrike(solution)) return false
+    if (rules.requirePromotion && !solution.some(notation => notation.includes('='))) return false
+    return true
+}
@@ -0,0 +1,212 @@
+import { useEffect, useState } from 'react'
+import { Alert, Badge, Button, Group, Stack, Text, Title, rem } from '@mantine/core'
+import { notifications } from '@mantine/notifications'
+import { MyChessboard } from '../components/my-chessboard'
+import { plausibleEvent } from '../plausible'
+import { positionToAlgebraic } from './double-strike'
+import { GeneratedPuzzle } from './generate-puzzle'
+import { parseLongMove } from './notation'
+import { HINT_PENALTY_SECONDS, RESET_PENALTY_SECONDS, RaceResult, racePenalty } from './race'
+import { GameState, fenToBoard, useDoubleStrikeGame } from './use-double-strike-game'
+
+// The clock adds up its ticks, and a tick held up by a busy page counts for at most MAX_TICK_MS.
+// Both players share the page, so neither is charged for time the board couldn't be played.
+const TICK_MS = 100
+const MAX_TICK_MS = 250
+
+// Format time as MM:SS
+const formatTime = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60)
+    const remainingSeconds = seconds % 60
+    return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`
+}
+
+/*
+    One player's board in a race. The clock starts when the board is shown and stops once the
+    puzzle is solved or given up, which is when the result is reported.
+*/
+export function RacePlayer({
+    name,
+    puzzle,
+    onFinish,
+}: {
+    name: string
+    puzzle: GeneratedPuzzle
+    onFinish: (result: RaceResult) => void
+}) {
+    const {
+        gameState,
+        history,
+        historyIndex,
+        remainingPieces,
+        positionFen,
+        exhaustedSquares,
+        strikePips,
+        solvability,
+        isDeadEnd,
+        resetGame,
+        undoToLastSolvable,
+        isUndoingToSolvable,
+        solveCurrentPosition,
+        onPieceDrop,
+        onPromotionPieceSelect,
+        onPromotionCheck,
+        isDraggablePiece,
+    } = useDoubleStrikeGame(puzzle.rules)
+    const [elapsedMs, setElapsedMs] = useState(0)
+    const elapsedTime = Math.floor(elapsedMs / 1000)
+    const [resets, setResets] = useState(0)
+    const [hints, setHints] = useState(0)
+    const [hint, setHint] = useState<{ state: GameState; square: string } | null>(null)
+    const [result, setResult] = useState<RaceResult | null>(null)
+    const [isFindingHint, setIsFindingHint] = useState(false)
+    const activeHint = hint?.state === gameState ? hint : null
+    const boardSize = puzzle.rules.boardSize
+
+    useEffect(() => {
+        resetGame(fenToBoard(puzzle.fen), puzzle.solution)
+    }, [puzzle])
+
+    useEffect(() => {
+        if (result) return
+        let lastTick = performance.now()
+        const intervalId = window.setInterval(() => {
+            const now = performance.now()
+            setElapsedMs(elapsed => elapsed + Math.min(now - lastTick, MAX_TICK_MS))
+            lastTick = now
+        }, TICK_MS)
+        return () => clearInterval(intervalId)
+    }, [result])
+
+    const finish = (solved: boolean) => {
+        const finalResult = {
+            solved,
+            seconds: elapsedTime,
+            resets,
+            hints,
+            moves: history.slice(1, historyIndex + 1).map(entry => entry.notation ?? ''),
+        }
+        setResult(finalResult)
+        onFinish(finalResult)
+    }
+
+    // The board is empty until the puzzle is set up, so this only fires on a solve
+    useEffect(() => {
+        if (remainingPieces === 1 && !result) finish(true)
+    }, [remainingPieces])
+
+    const resetPuzzle = () => {
+        resetGame(fenToBoard(puzzle.fen), puzzle.solution)
+        setResets(resets + 1)
+        plausibleEvent('double-strike:race-reset')
+    }
+
+    // Race hints only point at the piece to move
+    const showHint = async () => {
+        setIsFindingHint(true)
+        try {
+            const { solvability: hintSolvability, solution } = await solveCurrentPosition()
+            const move = solution?.length ? parseLongMove(solution[0], boardSize) : null
+            if (!move) {
+                notifications.show({
+                    message:
+                        hintSolvability === 'unsolvable'
+                            ? 'There is no solution from this position.'
+                            : 'This position is too large to find a hint.',
+                    color: 'yellow',
+                })
+                return
+            }
+            setHint({ state: gameState, square: positionToAlgebraic(move.from, boardSize) })
+            setHints(used => used + 1)
+            plausibleEvent('double-strike:race-hint')
+        } catch (err) {
+            console.error('Failed to find a hint', err)
+            notifications.show({ message: 'Could not find a hint. Please try again.', color: 'red' })
+        } finally {
+            setIsFindingHint(false)
+        }
+    }
+
+    const isPlaying = !result
+    const penalty = racePenalty({ resets, hints })
+
+    return (
+        <Stack gap="sm">
+            <Group justify="space-between">
+                <Title order={3}>{name}</Title>
+                <Text
+                    size={rem(32)}
+                    fw={700}
+                    style={{ fontFamily: 'monospace' }}
+                    c={result ? (result.solved ? 'green' : 'red') : undefined}
+                >
+                    {formatTime(elapsedTime)}
+                </Text>
+            </Group>
+            <Group gap="xs">
+                <Badge variant="light" color="gray">
+                    Resets: {resets}
+                </Badge>
+                <Badge variant="light" color="gray">
+                    Hints: {hints}
+                </Badge>
+                {penalty > 0 && (
+                    <Badge variant="light" color="red">
+                        +{penalty}s
+                    </Badge>
+                )}
+            </Group>
+            <MyChessboard
+                position={positionFen}
+                onPieceDrop={onPieceDrop}
+                onPromotionPieceSelect={onPromotionPieceSelect}
+                onPromotionCheck={onPromotionCheck}
+                promotionDialogVariant="vertical"
+                boardOrientation="white"
+                animationDuration={0}
+                isDraggablePiece={props => isPlaying && isDraggablePiece(props)}
+                customSquareStyles={
+                    activeHint ? { [activeHint.square]: { backgroundColor: 'rgba(34, 139, 230, 0.5)' } } : undefined
+                }
+                boardSize={boardSize}
+                piecePips={strikePips}
+                fadedPieces={exhaustedSquares}
+            />
+            {isPlaying && isDeadEnd && (
+                <Alert color="red" title="Dead end">
+                    <Text size="sm" mb={historyIndex > 0 ? 'sm' : 0}>
+                        This position can no longer be solved.
+                    </Text>
+                    {historyIndex > 0 && (
+                        <Button color="red" size="sm" onClick={undoToLastSolvable} loading={isUndoingToSolvable}>
+                            Undo to last solvable position
+                        </Button>
+                    )}
+                </Alert>
+            )}
+            {isPlaying ? (
+                <Group>
+                    <Button variant="outline" onClick={resetPuzzle}>
+                        Reset (+{RESET_PENALTY_SECONDS}s)
+                    </Button>
+                    <Button
+                        variant="outline"
+                        onClick={showHint}
+                        loading={isFindingHint}
+                        disabled={isDeadEnd || !!activeHint}
+                    >
+                        Hint (+{HINT_PENALTY_SECONDS}s)
+                    </Button>
+                    <Button variant="subtle" color="gray" onClick={() => finish(false)}>
+                        Give Up
+                    </Button>
+                </Group>
+            ) : (
+                <Text fw={700} c={result.solved ? 'green' : 'red'}>
+                    {result.solved ? 'Solved!' : 'Gave up'}
+                </Text>
+            )}
+        </Stack>
+    )
+}
@@ -0,0 +1,43 @@
+/*
+    Scoring for the hot-seat race, where two players solve the same puzzle on one device.
+    Resets and hints add time, so the fastest player can still lose by leaning on them.
+*/
+
+export type RaceFormat = 'split' | 'turns'
+
+export type RaceResult = {
+    solved: boolean
+    // Time on the clock without penalties
+    seconds: number
+    resets: number
+    hints: number
+    // Captures of the solving line, or of the position given up on
+    moves: string[]
+}
+
+export const RESET_PENALTY_SECONDS = 10
+export const HINT_PENALTY_SECONDS = 20
+
+export function racePenalty({ resets, hints }: Pick<RaceResult, 'resets' | 'hints'>): number {
+    return resets * RESET_PENALTY_SECONDS + hints * HINT_PENALTY_SECONDS
+}
+
+export function raceTotal(result: RaceResult): number {
+    return result.seconds + racePenalty(result)
+}
+
+// Index of the player with the lowest total among those who solved it, null for a tie or when nobody did
+export function raceWinner(results: RaceResult[]): number | null {
+    let winner: number | null = null
+    let isTie = false
+    results.forEach((result, index) => {
+        if (!result.solved) return
+        if (winner === null || raceTotal(result) < raceTotal(results[winner])) {
+            winner = index
+            isTie = false
+        } else if (raceTotal(result) === raceTotal(results[winner])) {
+            isTie = true
+        }
+    })
+    return isTie ? null : winner
+}
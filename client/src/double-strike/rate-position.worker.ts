@@ -0,0 +1,12 @@
+import { rateDoubleStrike, RateWorkerMessage, RateWorkerRequest } from './difficulty'
+
+const post = (message: RateWorkerMessage) => self.postMessage(message)
+
+self.onmessage = (event: MessageEvent<RateWorkerRequest>) => {
+    try {
+        const { fen, solution, rules } = event.data
+        post({ type: 'done', result: rateDoubleStrike(fen, solution, rules) })
+    } catch (err) {
+        post({ type: 'error', message: err instanceof Error ? err.message : String(err) })
+    }
+}
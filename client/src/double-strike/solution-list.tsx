@@ -0,0 +1,26 @@
+import { Box, Code, Text } from '@mantine/core'
+
+export function SolutionList({ solution, title = 'Solution' }: { solution: string[]; title?: string }) {
+    return (
+        <Box>
+            <Text>{title}</Text>
+            <Code
+                lh={1.8}
+                fz="md"
+                block
+                style={{
+                    maxHeight: '300px',
+                    overflowY: 'auto',
+                }}
+            >
+                {solution.reduce((acc, move, index) => {
+                    const moveText = `${(index + 1).toString().padStart(2, ' ')}..${move.padEnd(7)}`
+                    if ((index + 1) % 3 === 0) {
+                        return acc + moveText + '\n'
+                    }
+                    return acc + moveText + '   '
+                }, '')}
+            </Code>
+        </Box>
+    )
+}
@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react'
+import { ActionIcon, Box, Button, Group, Slider, Stack, Text } from '@mantine/core'
+import {
+    IconPlayerPause,
+    IconPlayerPlay,
+    IconPlayerSkipBack,
+    IconPlayerSkipForward,
+    IconPlayerTrackNext,
+    IconPlayerTrackPrev,
+} from '@tabler/icons-react'
+import { useHotkeys } from '@mantine/hooks'
+import { MyChessboard } from '../components/my-chessboard'
+import { positionToAlgebraic } from './double-strike'
+import { replaySolution } from './notation'
+
+const STEP_INTERVAL_MS = 1200
+const ANIMATION_MS = 300
+
+/*
+    Plays a solution back on the board one capture at a time.
+    The piece about to move and the piece it captures are highlighted before each capture.
+*/
+export function SolutionReplay({ fen, solution, onClose }: { fen: string; solution: string[]; onClose: () => void }) {
+    const [step, setStep] = useState(0)
+    const [isPlaying, setIsPlaying] = useState(false)
+    const steps = replaySolution(fen, solution) ?? []
+    const boardSize = fen.split(' ')[0].split('/').length
+    const lastStep = steps.length
+    const position = step === 0 ? fen : steps[step - 1].fen
+    const nextMove = steps[step]?.move
+
+    // Start over when a different solution is replayed
+    useEffect(() => {
+        setStep(0)
+        setIsPlaying(false)
+    }, [fen, solution])
+
+    useEffect(() => {
+        if (!isPlaying) return
+        if (step >= lastStep) {
+            setIsPlaying(false)
+            return
+        }
+        const timeoutId = window.setTimeout(() => setStep(step + 1), STEP_INTERVAL_MS)
+        return () => clearTimeout(timeoutId)
+    }, [isPlaying, step, lastStep])
+
+    const goToStep = (newStep: number) => {
+        setIsPlaying(false)
+        setStep(Math.max(0, Math.min(lastStep, newStep)))
+    }
+
+    const togglePlaying = () => {
+        // Playing from the end starts over
+        if (!isPlaying && step >= lastStep) setStep(0)
+        setIsPlaying(!isPlaying)
+    }
+
+    useHotkeys([
+        ['ArrowLeft', () => goToStep(step - 1)],
+        ['ArrowRight', () => goToStep(step + 1)],
+        ['space', togglePlaying],
+    ])
+
+    const squareStyles = nextMove
+        ? {
+              [positionToAlgebraic(nextMove.from, boardSize)]: { backgroundColor: 'rgba(34, 139, 230, 0.5)' },
+              [positionToAlgebraic(nextMove.to, boardSize)]: { backgroundColor: 'rgba(250, 82, 82, 0.5)' },
+          }
+        : undefined
+
+    return (
+        <Stack gap="xs">
+            <MyChessboard
+                position={position}
+                boardOrientation="white"
+                animationDuration={ANIMATION_MS}
+                isDraggablePiece={() => false}
+                onSquareClick={() => {}}
+                customSquareStyles={squareStyles}
+                boardSize={boardSize}
+            />
+            <Slider
+                min={0}
+                max={lastStep}
+                step={1}
+                value={step}
+                onChange={goToStep}
+                label={value => (value === 0 ? 'Start' : `${value}. ${solution[value - 1]}`)}
+                disabled={lastStep === 0}
+            />
+            <Group justify="space-between">
+                <Group gap={4}>
+                    <ActionIcon variant="subtle" size="lg" onClick={() => goToStep(0)} title="First move">
+                        <IconPlayerSkipBack size={20} />
+                    </ActionIcon>
+                    <ActionIcon
+                        variant="subtle"
+                        size="lg"
+                        onClick={() => goToStep(step - 1)}
+                        disabled={step === 0}
+                        title="Previous move (Left arrow)"
+                    >
+                        <IconPlayerTrackPrev size={20} />
+                    </ActionIcon>
+                    <ActionIcon
+                        variant="filled"
+                        size="lg"
+                        onClick={togglePlaying}
+                        disabled={lastStep === 0}
+                        title={isPlaying ? 'Pause (Space)' : 'Play (Space)'}
+                    >
+                        {isPlaying ? <IconPlayerPause size={20} /> : <IconPlayerPlay size={20} />}
+                    </ActionIcon>
+                    <ActionIcon
+                        variant="subtle"
+                        size="lg"
+                        onClick={() => goToStep(step + 1)}
+                        disabled={step === lastStep}
+                        title="Next move (Right arrow)"
+                    >
+                        <IconPlayerTrackNext size={20} />
+                    </ActionIcon>
+                    <ActionIcon variant="subtle" size="lg" onClick={() => goToStep(lastStep)} title="Last move">
+                        <IconPlayerSkipForward size={20} />
+                    </ActionIcon>
+                </Group>
+                <Box>
+                    <Text style={{ fontFamily: 'monospace' }}>
+                        {step === 0 ? 'Start' : `${step}. ${solution[step - 1]}`} ({step}/{lastStep})
+                    </Text>
+                </Box>
+                <Button variant="outline" size="xs" onClick={onClose}>
+                    Back to puzzle
+                </Button>
+            </Group>
+        </Stack>
+    )
+}
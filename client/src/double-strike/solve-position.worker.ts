@@ -0,0 +1,12 @@
+import { solveDoubleStrike, SolveWorkerMessage, SolveWorkerRequest } from './double-strike-solver'
+
+const post = (message: SolveWorkerMessage) => self.postMessage(message)
+
+self.onmessage = (event: MessageEvent<SolveWorkerRequest>) => {
+    try {
+        const { board, options } = event.data
+        post({ type: 'done', result: solveDoubleStrike(board, options) })
+    } catch (err) {
+        post({ type: 'error', message: err instanceof Error ? err.message : String(err) })
+    }
+}
@@ -0,0 +1,63 @@
+import { VariantRules } from './double-strike'
+import { SolveOptions, SolveResult, SolveWorkerRequest, SolverBoard } from './double-strike-solver'
+import { Difficulty, RateWorkerRequest } from './difficulty'
+
+// Sends the request to the worker and stops it as soon as it answers or the signal aborts
+function runWorker<Request, Result>(worker: Worker, request: Request, signal?: AbortSignal): Promise<Result> {
+    return new Promise((resolve, reject) => {
+        const cleanup = () => {
+            worker.terminate()
+            signal?.removeEventListener('abort', onAbort)
+        }
+
+        const onAbort = () => {
+            cleanup()
+            reject(new DOMException('Search cancelled', 'AbortError'))
+        }
+
+        if (signal?.aborted) {
+            onAbort()
+            return
+        }
+        signal?.addEventListener('abort', onAbort)
+
+        worker.onmessage = (
+            event: MessageEvent<{ type: 'done'; result: Result } | { type: 'error'; message: string }>,
+        ) => {
+            const message = event.data
+            cleanup()
+            if (message.type === 'done') {
+                resolve(message.result)
+            } else {
+                reject(new Error(message.message))
+            }
+        }
+
+        worker.onerror = event => {
+            cleanup()
+            reject(new Error(event.message))
+        }
+
+        worker.postMessage(request)
+    })
+}
+
+/*
+    Runs the solver off the main thread, so large positions can be searched without freezing the board.
+    Every search gets its own worker, which is stopped as soon as the search is no longer needed.
+*/
+export function solveInWorker(board: SolverBoard, options: SolveOptions, signal?: AbortSignal): Promise<SolveResult> {
+    const worker = new Worker(new URL('./solve-position.worker.ts', import.meta.url), { type: 'module' })
+    return runWorker<SolveWorkerRequest, SolveResult>(worker, { board, options }, signal)
+}
+
+// Rating searches every capture off the solution, which takes seconds on large positions
+export function rateInWorker(
+    fen: string,
+    solution: string[],
+    rules: VariantRules,
+    signal?: AbortSignal,
+): Promise<Difficulty | null> {
+    const worker = new Worker(new URL('./rate-position.worker.ts', import.meta.url), { type: 'module' })
+    return runWorker<RateWorkerRequest, Difficulty | null>(worker, { fen, solution, rules }, signal)
+}
@@ -0,0 +1,429 @@
+import { useState, useEffect, useRef } from 'react'
+import { Piece, PromotionPieceOption } from 'react-chessboard/dist/chessboard/types'
+import {
+    DEFAULT_BOARD_SIZE,
+    DEFAULT_RULES,
+    PieceColor,
+    Position,
+    SimplePiece,
+    UNLIMITED_STRIKES,
+    VariantRules,
+    algebraicToPosition,
+    boardToFen,
+    parseFenRows,
+    pieceToSimplePiece,
+    positionToAlgebraic,
+    sideToMove as sideToMoveAfter,
+} from './double-strike'
+import { canCapture, isPromotion } from './movement'
+import { formatLongMove, formatSolution } from './notation'
+import { SolverBoard } from './double-strike-solver'
+import { solveInWorker } from './solver-worker'
+import { isAbortError } from './puzzle-worker'
+import { PiecePipsBySquare } from '../components/piece-pips'
+import { plausibleEvent } from '../plausible'
+import { createSound, playSound } from '../utils/sound'
+
+// Add type for piece with unique ID
+export type TrackedPiece = {
+    id: string
+    type: SimplePiece
+    color: PieceColor
+}
+
+// Update GameState type
+export type GameState = {
+    board: (TrackedPiece | null)[][]
+    moveCount: Map<string, number> // Track by piece ID
+}
+
+// A position in the move history and the capture that led to it
+export type HistoryEntry = {
+    state: GameState
+    notation?: string
+}
+
+// Whether a position can still be solved, unknown when it is too large to search
+export type Solvability = 'solvable' | 'unsolvable' | 'unknown'
+
+export type SolvabilityCheck = {
+    solvability: Solvability
+    // Captures that solve the position in long algebraic notation, when one is known
+    solution: string[] | null
+}
+
+export type GameOptions = {
+    // Positions the dead end search may visit before giving up with an unknown result
+    maxStates?: number
+}
+
+const DEAD_END_MAX_STATES = 300_000
+
+const captureSound = createSound('/capture.mp3')
+const failSound = createSound('/fail.wav')
+
+export function emptyBoard(boardSize: number = DEFAULT_BOARD_SIZE): (TrackedPiece | null)[][] {
+    return Array(boardSize)
+        .fill(null)
+        .map(() => Array(boardSize).fill(null))
+}
+
+export function fenToBoard(fen: string): (TrackedPiece | null)[][] {
+    let pieceCounter = 0
+    return parseFenRows(fen).map(row => row.map(cell => (cell ? { id: `piece_${pieceCounter++}`, ...cell } : null)))
+}
+
+export function toSolverBoard({ board, moveCount }: GameState): SolverBoard {
+    return board.map(row => row.map(cell => cell && { ...cell, moves: moveCount.get(cell.id) || 0 }))
+}
+
+// Captured pieces keep their move counts, so this counts every capture made so far
+export function getSideToMove({ moveCount }: GameState): PieceColor {
+    return sideToMoveAfter([...moveCount.values()].reduce((sum, moves) => sum + moves, 0))
+}
+
+/*
+    Board state for playing a Double Strike position: move validation, undo/redo history
+    and a background check that the current position can still be solved, all under the variant's rules.
+    The board size follows from the position, and squares are plain strings since large boards have squares like j10.
+    The check runs in a worker, and is skipped while the moves follow a known solution of the puzzle.
+*/
+export function useDoubleStrikeGame(
+    rules: VariantRules = DEFAULT_RULES,
+    { maxStates = DEAD_END_MAX_STATES }: GameOptions = {},
+) {
+    const { strikeLimit, colorRule, boardSize: rulesBoardSize } = rules
+    const [history, setHistory] = useState<HistoryEntry[]>([
+        {
+            state: {
+                board: emptyBoard(),
+                moveCount: new Map(),
+            },
+        },
+    ])
+    const [historyIndex, setHistoryIndex] = useState(0)
+    // Solution of the puzzle from its starting position, in long algebraic notation
+    const [puzzleSolution, setPuzzleSolution] = useState<string[]>([])
+    const gameState = history[historyIndex].state
+    const remainingPieces = gameState.board.flat().filter(piece => piece !== null).length
+    const checks = useRef(new WeakMap<GameState, SolvabilityCheck>())
+    const [checkedState, setCheckedState] = useState<GameState | null>(null)
+    // The search behind "undo to last solvable", a new one or any other move cancels it
+    const undoSearch = useRef<AbortController | null>(null)
+    const [isUndoingToSolvable, setIsUndoingToSolvable] = useState(false)
+    // Null until the current position has been checked
+    const solvability = checkedState === gameState ? (checks.current.get(gameState)?.solvability ?? null) : null
+    const isDeadEnd = solvability === 'unsolvable'
+    // Only tracked when the sides take turns
+    const sideToMove = colorRule === 'alternate' ? getSideToMove(gameState) : null
+    const positionFen = boardToFen(gameState.board)
+    const boardSize = gameState.board.length
+
+    // Pieces that have used up their strikes are faded out, and with limited strikes each piece
+    // shows the strikes it has left. Promoted pieces keep their id, so they keep their count.
+    const exhaustedSquares: string[] = []
+    const strikePips: PiecePipsBySquare = {}
+    gameState.board.forEach((row, y) =>
+        row.forEach((cell, x) => {
+            if (!cell) return
+            const square = positionToAlgebraic({ x, y }, boardSize)
+            const moves = gameState.moveCount.get(cell.id) || 0
+            if (moves >= strikeLimit) {
+                exhaustedSquares.push(square)
+            }
+            if (strikeLimit !== UNLIMITED_STRIKES) {
+                strikePips[square] = { filled: Math.max(0, strikeLimit - moves), total: strikeLimit }
+            }
+        }),
+    )
+
+    // The rest of a known solution from a position in the history, when the moves up to it follow
+    // the puzzle's solution or a solution found for an earlier position
+    const knownCheck = (index: number): SolvabilityCheck | null => {
+        const checked = checks.current.get(history[index].state)
+        if (checked) return checked
+        if (index === 0) return puzzleSolution.length > 0 ? { solvability: 'solvable', solution: puzzleSolution } : null
+
+        const [nextMove, ...rest] = knownCheck(index - 1)?.solution ?? []
+        if (nextMove === undefined || nextMove !== history[index].notation) return null
+        return { solvability: 'solvable', solution: rest }
+    }
+
+    const checkPosition = async (index: number, signal?: AbortSignal): Promise<SolvabilityCheck> => {
+        const known = knownCheck(index)
+        if (known) return known
+
+        const { state } = history[index]
+        const result = await solveInWorker(
+            toSolverBoard(state),
+            { maxSolutions: 1, maxStates, rules, sideToMove: getSideToMove(state) },
+            signal,
+        )
+        const checked: SolvabilityCheck = {
+            solvability: result.solvable ? 'solvable' : result.complete ? 'unsolvable' : 'unknown',
+            solution: result.solution && formatSolution(result.solution, state.board.length),
+        }
+        checks.current.set(state, checked)
+        return checked
+    }
+
+    // Solvability depends on the rules, so start over when they change
+    useEffect(() => {
+        checks.current = new WeakMap()
+        setCheckedState(null)
+    }, [strikeLimit, colorRule, rulesBoardSize])
+
+    // Check in the background whether the current position can still be solved
+    useEffect(() => {
+        if (remainingPieces <= 1) return
+
+        const controller = new AbortController()
+        const isFirstCheck = !checks.current.has(gameState)
+        checkPosition(historyIndex, controller.signal)
+            .then(checked => {
+                if (checked.solvability === 'unsolvable' && isFirstCheck && historyIndex > 0) {
+                    playSound(failSound)
+                    plausibleEvent('double-strike:dead-end')
+                }
+                setCheckedState(gameState)
+            })
+            .catch(err => {
+                if (!isAbortError(err)) console.error('Failed to check the position', err)
+            })
+
+        return () => controller.abort()
+    }, [gameState, strikeLimit, colorRule, rulesBoardSize, maxStates])
+
+    const cancelUndoSearch = () => undoSearch.current?.abort()
+
+    // Stop the search when leaving the page
+    useEffect(() => cancelUndoSearch, [])
+
+    // The solution is followed without searching while the moves match it
+    const resetGame = (board: (TrackedPiece | null)[][], solution: string[] = []) => {
+        cancelUndoSearch()
+        setHistory([
+            {
+                state: {
+                    board,
+                    moveCount: new Map(),
+                },
+            },
+        ])
+        setHistoryIndex(0)
+        setPuzzleSolution(solution)
+    }
+
+    // Drops any undone moves and makes the new position current
+    const pushMove = (state: GameState, notation: string) => {
+        cancelUndoSearch()
+        setHistory([...history.slice(0, historyIndex + 1), { state, notation }])
+        setHistoryIndex(historyIndex + 1)
+    }
+
+    const goToMove = (index: number) => {
+        if (index < 0 || index >= history.length) return
+        cancelUndoSearch()
+        setHistoryIndex(index)
+    }
+
+    const undoMove = () => goToMove(historyIndex - 1)
+    const redoMove = () => goToMove(historyIndex + 1)
+
+    // The current position's solution for hints, searched in a worker unless the moves follow a known one
+    const solveCurrentPosition = (signal?: AbortSignal) => checkPosition(historyIndex, signal)
+
+    // Goes back to the last position that can be solved, or to the start when none is known to be
+    const undoToLastSolvable = async () => {
+        cancelUndoSearch()
+        const controller = new AbortController()
+        undoSearch.current = controller
+        setIsUndoingToSolvable(true)
+        try {
+            let target = 0
+            for (let i = historyIndex - 1; i > 0; i--) {
+                const { solvability } = await checkPosition(i, controller.signal)
+                if (solvability === 'solvable') {
+                    target = i
+                    break
+                }
+            }
+            setHistoryIndex(target)
+            plausibleEvent('double-strike:undo-dead-end')
+        } catch (err) {
+            if (!isAbortError(err)) console.error('Failed to find a solvable position', err)
+        } finally {
+            if (undoSearch.current === controller) {
+                undoSearch.current = null
+                setIsUndoingToSolvable(false)
+            }
+        }
+    }
+
+    // Whether the piece has strikes left and, when sides take turns, it is its side's turn
+    const canMove = (piece: TrackedPiece): boolean => {
+        if ((gameState.moveCount.get(piece.id) || 0) >= strikeLimit) return false
+        return sideToMove === null || piece.color === sideToMove
+    }
+
+    function onPieceDrop(sourceSquare: string, targetSquare: string, piece: Piece): boolean {
+        const fromPos = algebraicToPosition(sourceSquare, boardSize)
+        const toPos = algebraicToPosition(targetSquare, boardSize)
+
+        const sourcePiece = gameState.board[fromPos.y][fromPos.x]
+        const targetPiece = gameState.board[toPos.y][toPos.x]
+
+        // Validation checks
+        if (!targetPiece || !sourcePiece) return false
+        const currentMoves = gameState.moveCount.get(sourcePiece.id) || 0
+        if (!canMove(sourcePiece)) return false
+        if (!canCapture(fromPos, toPos, gameState.board, colorRule)) return false
+        // Promotions go through onPromotionPieceSelect
+        if (isPromotion(sourcePiece, toPos, boardSize)) return false
+
+        const newPiece: TrackedPiece = {
+            id: sourcePiece.id,
+            type: pieceToSimplePiece(piece),
+            color: sourcePiece.color,
+        }
+
+        const newBoard = gameState.board.map(row => [...row])
+        newBoard[toPos.y][toPos.x] = newPiece
+        newBoard[fromPos.y][fromPos.x] = null
+
+        const notation = formatLongMove(
+            {
+                from: fromPos,
+                to: toPos,
+                captured: targetPiece.type,
+                piece: newPiece.type,
+                color: newPiece.color,
+                pieceId: sourcePiece.id,
+                wasPromotion: false,
+            },
+            boardSize,
+        )
+
+        const newMoveCount = new Map(gameState.moveCount)
+        newMoveCount.set(sourcePiece.id, currentMoves + 1)
+
+        pushMove(
+            {
+                board: newBoard,
+                moveCount: newMoveCount,
+            },
+            notation,
+        )
+
+        playSound(captureSound)
+        return true
+    }
+
+    function onPromotionPieceSelect(
+        piece?: PromotionPieceOption,
+        sourceSquare?: string,
+        targetSquare?: string,
+    ): boolean {
+        if (!piece || !sourceSquare || !targetSquare) return false
+
+        const fromPos = algebraicToPosition(sourceSquare, boardSize)
+        const toPos = algebraicToPosition(targetSquare, boardSize)
+
+        const sourcePiece = gameState.board[fromPos.y][fromPos.x]
+        const targetPiece = gameState.board[toPos.y][toPos.x]
+        if (!sourcePiece || !targetPiece) return false
+        if (!canMove(sourcePiece) || !isPromotion(sourcePiece, toPos, boardSize)) return false
+        if (!canCapture(fromPos, toPos, gameState.board, colorRule)) return false
+
+        const promotedPiece: TrackedPiece = {
+            id: sourcePiece.id,
+            type: pieceToSimplePiece(piece),
+            color: sourcePiece.color,
+        }
+
+        const newBoard = gameState.board.map(row => [...row])
+        newBoard[toPos.y][toPos.x] = promotedPiece
+        newBoard[fromPos.y][fromPos.x] = null
+
+        const notation = formatLongMove(
+            {
+                from: fromPos,
+                to: toPos,
+                captured: targetPiece.type,
+                piece: promotedPiece.type,
+                color: promotedPiece.color,
+                pieceId: sourcePiece.id,
+                wasPromotion: true,
+            },
+            boardSize,
+        )
+
+        const newMoveCount = new Map(gameState.moveCount)
+        const currentMoves = gameState.moveCount.get(sourcePiece.id) || 0
+        newMoveCount.set(sourcePiece.id, currentMoves + 1)
+
+        pushMove(
+            {
+                board: newBoard,
+                moveCount: newMoveCount,
+            },
+            notation,
+        )
+
+        playSound(captureSound)
+        return true
+    }
+
+    function onPromotionCheck(sourceSquare: string, targetSquare: string, piece: Piece): boolean {
+        if (!sourceSquare || !targetSquare || !piece) return false
+
+        const fromPos = algebraicToPosition(sourceSquare, boardSize)
+        const toPos = algebraicToPosition(targetSquare, boardSize)
+
+        // Check if there's a piece to capture
+        const targetPiece = gameState.board[toPos.y][toPos.x]
+        if (!targetPiece) return false
+
+        // Get the source piece to check its move count
+        const sourcePiece = gameState.board[fromPos.y][fromPos.x]
+        if (!sourcePiece) return false
+
+        // Check move count limit and turn
+        if (!canMove(sourcePiece)) return false
+
+        // Check if it's a pawn capturing onto its promotion rank
+        return isPromotion(sourcePiece, toPos, boardSize) && canCapture(fromPos, toPos, gameState.board, colorRule)
+    }
+
+    function isDraggablePiece({ sourceSquare }: { piece: Piece; sourceSquare: string }): boolean {
+        if (remainingPieces === 1) return false
+        const pos = algebraicToPosition(sourceSquare, boardSize)
+        const sourcePiece = gameState.board[pos.y][pos.x]
+        if (!sourcePiece) return false
+        return canMove(sourcePiece)
+    }
+
+    return {
+        gameState,
+        history,
+        historyIndex,
+        remainingPieces,
+        positionFen,
+        exhaustedSquares,
+        strikePips,
+        sideToMove,
+        solvability,
+        isDeadEnd,
+        resetGame,
+        goToMove,
+        undoMove,
+        redoMove,
+        undoToLastSolvable,
+        isUndoingToSolvable,
+        solveCurrentPosition,
+        onPieceDrop,
+        onPromotionPieceSelect,
+        onPromotionCheck,
+        isDraggablePiece,
+    }
+}
@@ -0,0 +1,81 @@
+import { Box, SegmentedControl, Stack, Text, rem } from '@mantine/core'
+import {
+    BOARD_SIZES,
+    COLOR_RULES,
+    DEFAULT_RULES,
+    STRIKE_LIMITS,
+    VariantRules,
+    boardSizeName,
+    colorRuleName,
+    parseBoardSize,
+    parseColorRule,
+    parseStrikeLimit,
+    strikeLimitName,
+    strikeLimitToParam,
+} from './double-strike'
+
+// The board size is only offered where puzzles are generated, other pages use 8x8 boards
+export function VariantRulesControls({
+    rules,
+    onChange,
+    withBoardSize = false,
+}: {
+    rules: VariantRules
+    onChange: (rules: VariantRules) => void
+    withBoardSize?: boolean
+}) {
+    return (
+        <Stack gap="md">
+            <Box>
+                <Text size={rem(18)} mb={8}>
+                    Strikes per Piece
+                </Text>
+                <SegmentedControl
+                    value={strikeLimitToParam(rules.strikeLimit)}
+                    onChange={value =>
+                        onChange({ ...rules, strikeLimit: parseStrikeLimit(value) ?? DEFAULT_RULES.strikeLimit })
+                    }
+                    data={STRIKE_LIMITS.map(limit => ({
+                        label: strikeLimitName(limit),
+                        value: strikeLimitToParam(limit),
+                    }))}
+                    fullWidth
+                />
+            </Box>
+            <Box>
+                <Text size={rem(18)} mb={8}>
+                    Colors
+                </Text>
+                <SegmentedControl
+                    value={rules.colorRule}
+                    onChange={value =>
+                        onChange({ ...rules, colorRule: parseColorRule(value) ?? DEFAULT_RULES.colorRule })
+                    }
+                    data={COLOR_RULES.map(rule => ({
+                        label: colorRuleName(rule),
+                        value: rule,
+                    }))}
+                    fullWidth
+                />
+            </Box>
+            {withBoardSize && (
+                <Box>
+                    <Text size={rem(18)} mb={8}>
+                        Board Size
+                    </Text>
+                    <SegmentedControl
+                        value={rules.boardSize.toString()}
+                        onChange={value =>
+                            onChange({ ...rules, boardSize: parseBoardSize(value) ?? DEFAULT_RULES.boardSize })
+                        }
+                        data={BOARD_SIZES.map(boardSize => ({
+                            label: boardSizeName(boardSize),
+                            value: boardSize.toString(),
+                        }))}
+                        fullWidth
+                    />
+                </Box>
+            )}
+        </Stack>
+    )
+}
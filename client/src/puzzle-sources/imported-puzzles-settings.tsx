@@ -0,0 +1,185 @@
+import { useEffect, useState } from 'react'
+import {
+    ActionIcon,
+    Anchor,
+    Button,
+    FileInput,
+    Modal,
+    MultiSelect,
+    Progress,
+    RangeSlider,
+    Stack,
+    Text,
+} from '@mantine/core'
+import { IconAdjustments } from '@tabler/icons-react'
+import { notifications } from '@mantine/notifications'
+import { plausibleEvent } from '../plausible'
+import { RATING_RANGE, findFilteredPuzzle, loadFilters, saveFilters } from './imported-source'
+import { importLichessCsv } from './lichess-csv'
+import { clearPuzzles, countPuzzles, getTags } from './puzzle-database'
+
+// Opening tags use underscores for spaces, e.g. Sicilian_Defense_Najdorf_Variation
+const openingLabel = (opening: string) => opening.replace(/_/g, ' ')
+
+/*
+    Importing the Lichess puzzle database and choosing which of its puzzles to play. Filters are
+    saved as they change and apply from the next puzzle on.
+*/
+export function ImportedPuzzlesSettings() {
+    const [opened, setOpened] = useState(false)
+    const [filters, setFilters] = useState(loadFilters)
+    const [puzzleCount, setPuzzleCount] = useState<number | null>(null)
+    const [themes, setThemes] = useState<string[]>([])
+    const [openings, setOpenings] = useState<string[]>([])
+    const [importProgress, setImportProgress] = useState<number | null>(null)
+    const [hasMatch, setHasMatch] = useState(true)
+    const isImporting = importProgress !== null
+
+    const loadDatabaseInfo = async () => {
+        try {
+            const [count, themeTags, openingTags] = await Promise.all([
+                countPuzzles(),
+                getTags('themes'),
+                getTags('openings'),
+            ])
+            setPuzzleCount(count)
+            setThemes(themeTags)
+            setOpenings(openingTags)
+        } catch (error) {
+            console.error('Failed to read imported puzzles')
+        }
+    }
+
+    useEffect(() => {
+        if (opened) loadDatabaseInfo()
+    }, [opened])
+
+    useEffect(() => {
+        saveFilters(filters)
+        if (!opened || isImporting) return
+        let isCurrent = true
+        findFilteredPuzzle(filters)
+            .then(puzzle => isCurrent && setHasMatch(puzzle !== null))
+            .catch(() => isCurrent && setHasMatch(false))
+        return () => {
+            isCurrent = false
+        }
+    }, [filters, opened, puzzleCount])
+
+    const importFile = async (file: File | null) => {
+        if (!file) return
+        setImportProgress(0)
+        try {
+            const { imported, skipped } = await importLichessCsv(file, setImportProgress)
+            notifications.show({
+                message: `Imported ${imported} puzzles${skipped > 0 ? `, ${skipped} rows could not be read` : ''}.`,
+                color: imported > 0 ? 'green' : 'yellow',
+            })
+            plausibleEvent('puzzle-source:import', { props: { count: imported } })
+        } catch (error) {
+            notifications.show({
+                message: 'Failed to import puzzles. Please try again.',
+                color: 'red',
+            })
+        } finally {
+            setImportProgress(null)
+            loadDatabaseInfo()
+        }
+    }
+
+    const deletePuzzles = async () => {
+        await clearPuzzles()
+        setFilters({ ...filters, themes: [], openings: [] })
+        loadDatabaseInfo()
+        plausibleEvent('puzzle-source:clear')
+    }
+
+    return (
+        <>
+            <ActionIcon variant="subtle" size="lg" onClick={() => setOpened(true)} title="Imported puzzles">
+                <IconAdjustments size={24} />
+            </ActionIcon>
+            <Modal
+                opened={opened}
+                onClose={() => setOpened(false)}
+                title="Imported Puzzles"
+                size="md"
+                closeOnClickOutside={!isImporting}
+                closeOnEscape={!isImporting}
+                withCloseButton={!isImporting}
+            >
+                <Stack gap="md">
+                    <Text size="sm">
+                        Download the{' '}
+                        <Anchor href="https://database.lichess.org/#puzzles" target="_blank" rel="noopener noreferrer">
+                            Lichess puzzle database
+                        </Anchor>{' '}
+                        and unpack it to a CSV file. A file with only some of its rows works too.
+                    </Text>
+                    <FileInput
+                        label="Puzzle CSV"
+                        placeholder="Choose a file"
+                        accept=".csv,text/csv"
+                        value={null}
+                        onChange={importFile}
+                        disabled={isImporting}
+                    />
+                    {isImporting ? (
+                        <Progress value={importProgress * 100} animated />
+                    ) : (
+                        puzzleCount !== null && (
+                            <Text size="sm" c="dimmed">
+                                {puzzleCount} {puzzleCount === 1 ? 'puzzle' : 'puzzles'} imported
+                            </Text>
+                        )
+                    )}
+                    <Stack gap={4}>
+                        <Text size="sm">Rating</Text>
+                        <RangeSlider
+                            min={RATING_RANGE[0]}
+                            max={RATING_RANGE[1]}
+                            step={50}
+                            minRange={100}
+                            defaultValue={[filters.minRating, filters.maxRating]}
+                            // Filters are applied once the thumb is let go, each change looks for a matching puzzle
+                            onChangeEnd={([minRating, maxRating]) => setFilters({ ...filters, minRating, maxRating })}
+                            label={value =>
+                                value === RATING_RANGE[0] || value === RATING_RANGE[1] ? 'Any' : value.toString()
+                            }
+                            mb="xs"
+                        />
+                    </Stack>
+                    <MultiSelect
+                        label="Themes"
+                        placeholder={filters.themes.length === 0 ? 'Any theme' : undefined}
+                        data={themes}
+                        value={filters.themes}
+                        onChange={selected => setFilters({ ...filters, themes: selected })}
+                        searchable
+                        clearable
+                    />
+                    <MultiSelect
+                        label="Openings"
+                        placeholder={filters.openings.length === 0 ? 'Any opening' : undefined}
+                        data={openings.map(opening => ({ value: opening, label: openingLabel(opening) }))}
+                        value={filters.openings}
+                        onChange={selected => setFilters({ ...filters, openings: selected })}
+                        searchable
+                        clearable
+                        limit={50}
+                    />
+                    {!isImporting && puzzleCount !== null && (puzzleCount === 0 || !hasMatch) && (
+                        <Text size="sm" c="red">
+                            {puzzleCount === 0
+                                ? 'Import a file to play these puzzles.'
+                                : 'No puzzles match these filters.'}
+                        </Text>
+                    )}
+                    <Button variant="subtle" color="red" onClick={deletePuzzles} disabled={isImporting || !puzzleCount}>
+                        Delete imported puzzles
+                    </Button>
+                </Stack>
+            </Modal>
+        </>
+    )
+}
@@ -0,0 +1,70 @@
+import { Chess } from 'chess.js'
+import { ImportedPuzzle, PuzzleFilters, findRandomPuzzle, getPuzzle } from './puzzle-database'
+import { PuzzleSource, SourcePuzzle } from './puzzle-source'
+
+const FILTERS_KEY = 'importedPuzzleFilters'
+
+export const RATING_RANGE: [number, number] = [400, 3200]
+
+export const DEFAULT_FILTERS: PuzzleFilters = {
+    minRating: RATING_RANGE[0],
+    maxRating: RATING_RANGE[1],
+    themes: [],
+    openings: [],
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string')
+
+export const loadFilters = (): PuzzleFilters => {
+    const stored = localStorage.getItem(FILTERS_KEY)
+    if (stored) {
+        try {
+            const { minRating, maxRating, themes, openings } = JSON.parse(stored)
+            if (
+                typeof minRating === 'number' &&
+                typeof maxRating === 'number' &&
+                isStringArray(themes) &&
+                isStringArray(openings)
+            ) {
+                return { minRating, maxRating, themes, openings }
+            }
+        } catch (e) {
+            console.error('Failed to parse stored puzzle filters')
+        }
+    }
+    return DEFAULT_FILTERS
+}
+
+export const saveFilters = (filters: PuzzleFilters) => {
+    localStorage.setItem(FILTERS_KEY, JSON.stringify(filters))
+}
+
+// The ends of the rating slider don't limit anything, the database has puzzles beyond both
+export const findFilteredPuzzle = (filters: PuzzleFilters) =>
+    findRandomPuzzle({
+        ...filters,
+        minRating: filters.minRating <= RATING_RANGE[0] ? 0 : filters.minRating,
+        maxRating: filters.maxRating >= RATING_RANGE[1] ? Infinity : filters.maxRating,
+    })
+
+// The database stores the position before the opponent's move, the puzzle starts after it
+const toSourcePuzzle = ({ id, fen, move, rating }: ImportedPuzzle): SourcePuzzle => {
+    const chess = new Chess(fen)
+    chess.move({ from: move.slice(0, 2), to: move.slice(2, 4), promotion: move[4] })
+    return { id, fen: chess.fen(), rating }
+}
+
+// Puzzles imported from the Lichess database, filtered by the player's choice of rating, themes and openings
+export const importedSource: PuzzleSource = {
+    next: async () => {
+        const puzzle = await findFilteredPuzzle(loadFilters())
+        if (!puzzle) throw new Error('No imported puzzles match the filters')
+        return toSourcePuzzle(puzzle)
+    },
+    byId: async id => {
+        const puzzle = await getPuzzle(id)
+        if (!puzzle) throw new Error('Puzzle not found')
+        return toSourcePuzzle(puzzle)
+    },
+}
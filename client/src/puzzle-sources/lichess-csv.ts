@@ -0,0 +1,68 @@
+import { ImportedPuzzle, savePuzzles } from './puzzle-database'
+
+/*
+    Reads the Lichess puzzle database, https://database.lichess.org/#puzzles, once it has been
+    unpacked to CSV. The file is streamed and saved in batches, so the full dump fits in memory.
+    Columns: PuzzleId,FEN,Moves,Rating,RatingDeviation,Popularity,NbPlays,Themes,GameUrl,OpeningTags
+*/
+
+const BATCH_SIZE = 5000
+
+export type ImportResult = {
+    imported: number
+    // Rows that couldn't be read
+    skipped: number
+}
+
+export function parseLichessCsvRow(line: string): ImportedPuzzle | null {
+    const [id, fen, moves, rating, , , , themes = '', , openings = ''] = line.trim().split(',')
+    const move = moves?.split(' ')[0]
+    if (!id || !fen || !move?.match(/^[a-h][1-8][a-h][1-8][qrbn]?$/) || isNaN(parseInt(rating))) return null
+    return {
+        id,
+        fen,
+        move,
+        rating: parseInt(rating),
+        themes: themes.split(' ').filter(theme => theme !== ''),
+        openings: openings.split(' ').filter(opening => opening !== ''),
+    }
+}
+
+export async function importLichessCsv(file: File, onProgress: (progress: number) => void): Promise<ImportResult> {
+    const reader = file.stream().pipeThrough(new TextDecoderStream()).getReader()
+    const result: ImportResult = { imported: 0, skipped: 0 }
+    let batch: ImportedPuzzle[] = []
+    let partialLine = ''
+    let read = 0
+
+    const addLine = (line: string) => {
+        if (line.trim() === '' || line.startsWith('PuzzleId,')) return
+        const puzzle = parseLichessCsvRow(line)
+        if (puzzle) {
+            batch.push(puzzle)
+        } else {
+            result.skipped++
+        }
+    }
+
+    const saveBatch = async () => {
+        await savePuzzles(batch)
+        result.imported += batch.length
+        batch = []
+        // The dump is plain ASCII, so characters read match the file size
+        onProgress(Math.min(read / file.size, 1))
+    }
+
+    while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        read += value.length
+        const lines = (partialLine + value).split('\n')
+        partialLine = lines.pop()!
+        lines.forEach(addLine)
+        if (batch.length >= BATCH_SIZE) await saveBatch()
+    }
+    addLine(partialLine)
+    await saveBatch()
+    return result
+}
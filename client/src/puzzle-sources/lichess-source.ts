@@ -0,0 +1,22 @@
+import { PuzzleSource, SourcePuzzle, fenAfterPgn, randomItem } from './puzzle-source'
+
+const DIFFICULTIES = ['easier', 'normal', 'harder', 'hardest']
+
+const fetchPuzzle = async (url: string): Promise<SourcePuzzle> => {
+    const response = await fetch(url)
+    if (!response.ok) {
+        throw new Error('Failed to load puzzle')
+    }
+    const data = await response.json()
+    return {
+        id: data.puzzle.id,
+        fen: fenAfterPgn(data.game.pgn),
+        rating: data.puzzle.rating,
+    }
+}
+
+// Live puzzles from the Lichess API, at a random difficulty
+export const lichessSource: PuzzleSource = {
+    next: () => fetchPuzzle(`https://lichess.org/api/puzzle/next?difficulty=${randomItem(DIFFICULTIES)}`),
+    byId: id => fetchPuzzle(`https://lichess.org/api/puzzle/${id}`),
+}
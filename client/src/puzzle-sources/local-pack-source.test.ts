@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createLocalPackSource } from './local-pack-source'
+
+const pack = [
+    { id: 'offline-1', fen: '4k3/8/8/8/8/8/8/4K2R w K - 0 1' },
+    { id: 'broken', rating: 1200 },
+]
+
+const stubFetch = (response: Partial<Response>) => {
+    const fetch = vi.fn(async () => response as Response)
+    vi.stubGlobal('fetch', fetch)
+    return fetch
+}
+
+describe('createLocalPackSource', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it('fetches the pack once and serves it from memory', async () => {
+        const fetch = stubFetch({ ok: true, json: async () => pack })
+        const source = createLocalPackSource('/pack.json')
+
+        expect(await source.next()).toEqual(pack[0])
+        expect(await source.byId('offline-1')).toEqual(pack[0])
+        expect(fetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('skips entries without an id and a position', async () => {
+        stubFetch({ ok: true, json: async () => pack })
+        await expect(createLocalPackSource('/pack.json').byId('broken')).rejects.toThrow('Puzzle not found')
+    })
+
+    it('retries a pack that failed to load', async () => {
+        const fetch = stubFetch({ ok: false })
+        const source = createLocalPackSource('/pack.json')
+        await expect(source.next()).rejects.toThrow('Failed to load puzzle pack')
+
+        fetch.mockImplementation(async () => ({ ok: true, json: async () => pack }) as Response)
+        expect(await source.next()).toEqual(pack[0])
+        expect(fetch).toHaveBeenCalledTimes(2)
+    })
+})
@@ -0,0 +1,35 @@
+import { createMemorySource } from './memory-source'
+import { PuzzleSource, SourcePuzzle } from './puzzle-source'
+
+export const OFFLINE_PACK_URL = '/puzzles/offline-pack.json'
+
+const isSourcePuzzle = (value: Partial<SourcePuzzle> | null): value is SourcePuzzle =>
+    typeof value?.id === 'string' && typeof value.fen === 'string'
+
+/*
+    Positions bundled with the app under public/, fetched once and then served without the network.
+    The pack is a JSON array of { id, fen } objects, a rating is optional.
+*/
+export function createLocalPackSource(url: string = OFFLINE_PACK_URL): PuzzleSource {
+    let pack: Promise<PuzzleSource> | null = null
+    const load = () => {
+        if (!pack) {
+            pack = fetch(url)
+                .then(response => {
+                    if (!response.ok) throw new Error('Failed to load puzzle pack')
+                    return response.json()
+                })
+                .then(puzzles => createMemorySource(Array.isArray(puzzles) ? puzzles.filter(isSourcePuzzle) : []))
+            // Let a failed fetch be retried with the next puzzle
+            pack.catch(() => {
+                pack = null
+            })
+        }
+        return pack
+    }
+
+    return {
+        next: async () => (await load()).next(),
+        byId: async id => (await load()).byId(id),
+    }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { createMemorySource } from './memory-source'
+
+const puzzles = [
+    { id: 'a1', fen: '4k3/8/8/8/8/8/8/4K2R w K - 0 1' },
+    { id: 'b2', fen: 'r3k3/8/8/8/8/8/8/4K3 b q - 0 1', rating: 1500 },
+]
+
+describe('createMemorySource', () => {
+    it('serves its own positions without the network', async () => {
+        const source = createMemorySource(puzzles)
+        for (let i = 0; i < 10; i++) {
+            expect(puzzles).toContain(await source.next())
+        }
+    })
+
+    it('finds puzzles by id', async () => {
+        const source = createMemorySource(puzzles)
+        expect(await source.byId('b2')).toEqual(puzzles[1])
+        await expect(source.byId('c3')).rejects.toThrow('Puzzle not found')
+    })
+
+    it('fails to serve from an empty set', async () => {
+        await expect(createMemorySource([]).next()).rejects.toThrow('No puzzles available')
+    })
+})
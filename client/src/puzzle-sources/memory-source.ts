@@ -0,0 +1,16 @@
+import { PuzzleSource, SourcePuzzle, randomItem } from './puzzle-source'
+
+// A fixed set of positions, for trying a page out without the network
+export function createMemorySource(puzzles: SourcePuzzle[]): PuzzleSource {
+    return {
+        next: async () => {
+            if (puzzles.length === 0) throw new Error('No puzzles available')
+            return randomItem(puzzles)
+        },
+        byId: async id => {
+            const puzzle = puzzles.find(puzzle => puzzle.id === id)
+            if (!puzzle) throw new Error('Puzzle not found')
+            return puzzle
+        },
+    }
+}
@@ -0,0 +1,164 @@
+/*
+    Puzzles imported from the Lichess puzzle database, kept in IndexedDB so they can be played
+    without the network. Themes and openings are multi-entry indexes, so a filter on them only
+    walks the puzzles that have one of the chosen tags.
+*/
+
+const DATABASE_NAME = 'chessprac'
+const DATABASE_VERSION = 1
+const STORE = 'lichessPuzzles'
+
+export type ImportedPuzzle = {
+    id: string
+    // Position before the opponent's move that sets up the puzzle
+    fen: string
+    // That move in UCI notation, e.g. e7e8q
+    move: string
+    rating: number
+    themes: string[]
+    openings: string[]
+}
+
+export type PuzzleFilters = {
+    minRating: number
+    maxRating: number
+    // A puzzle has to have one of these, an empty list allows all
+    themes: string[]
+    openings: string[]
+}
+
+let database: Promise<IDBDatabase> | null = null
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve()
+        transaction.onerror = () => reject(transaction.error)
+        transaction.onabort = () => reject(transaction.error)
+    })
+
+function openPuzzleDatabase(): Promise<IDBDatabase> {
+    if (!database) {
+        database = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE, { keyPath: 'id' })
+                store.createIndex('rating', 'rating')
+                store.createIndex('themes', 'themes', { multiEntry: true })
+                store.createIndex('openings', 'openings', { multiEntry: true })
+            }
+            request.onsuccess = () => resolve(request.result)
+            request.onerror = () => reject(request.error)
+        })
+        // Let opening be retried, e.g. after the player allowed storage
+        database.catch(() => {
+            database = null
+        })
+    }
+    return database
+}
+
+async function puzzleStore(mode: IDBTransactionMode = 'readonly'): Promise<IDBObjectStore> {
+    const db = await openPuzzleDatabase()
+    return db.transaction(STORE, mode).objectStore(STORE)
+}
+
+// Puzzles already in the database are replaced, so importing the same file twice is harmless
+export async function savePuzzles(puzzles: ImportedPuzzle[]) {
+    const store = await puzzleStore('readwrite')
+    puzzles.forEach(puzzle => store.put(puzzle))
+    await transactionDone(store.transaction)
+}
+
+export async function clearPuzzles() {
+    const store = await puzzleStore('readwrite')
+    store.clear()
+    await transactionDone(store.transaction)
+}
+
+export async function countPuzzles(): Promise<number> {
+    return requestResult((await puzzleStore()).count())
+}
+
+export async function getPuzzle(id: string): Promise<ImportedPuzzle | undefined> {
+    return requestResult((await puzzleStore()).get(id))
+}
+
+// Every theme or opening tag in the database, sorted
+export async function getTags(index: 'themes' | 'openings'): Promise<string[]> {
+    const request = (await puzzleStore()).index(index).openKeyCursor(null, 'nextunique')
+    const tags: string[] = []
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => {
+            const cursor = request.result
+            if (!cursor) return resolve(tags)
+            tags.push(cursor.key as string)
+            cursor.continue()
+        }
+        request.onerror = () => reject(request.error)
+    })
+}
+
+const matchesFilters = (puzzle: ImportedPuzzle, filters: PuzzleFilters): boolean =>
+    puzzle.rating >= filters.minRating &&
+    puzzle.rating <= filters.maxRating &&
+    (filters.themes.length === 0 || filters.themes.some(theme => puzzle.themes.includes(theme))) &&
+    (filters.openings.length === 0 || filters.openings.some(opening => puzzle.openings.includes(opening)))
+
+// Walks an index from the given position and stops at the first puzzle that passes the filters
+async function walkIndex(
+    index: 'rating' | 'themes' | 'openings',
+    query: IDBValidKey | IDBKeyRange,
+    start: number,
+    limit: number,
+    filters: PuzzleFilters,
+): Promise<ImportedPuzzle | null> {
+    const request = (await puzzleStore()).index(index).openCursor(query)
+    let walked = 0
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => {
+            const cursor = request.result
+            if (!cursor || walked >= limit) return resolve(null)
+            if (walked === 0 && start > 0) {
+                walked = start
+                cursor.advance(start)
+                return
+            }
+            if (matchesFilters(cursor.value, filters)) return resolve(cursor.value)
+            walked++
+            cursor.continue()
+        }
+        request.onerror = () => reject(request.error)
+    })
+}
+
+/*
+    A random puzzle that passes the filters, or null when there is none. The walk starts at a random
+    position in the narrowest index and wraps around, so rare tags don't need a full scan.
+*/
+export async function findRandomPuzzle(filters: PuzzleFilters): Promise<ImportedPuzzle | null> {
+    const [index, keys]: ['rating' | 'themes' | 'openings', (IDBValidKey | IDBKeyRange)[]] =
+        filters.themes.length > 0
+            ? ['themes', filters.themes]
+            : filters.openings.length > 0
+              ? ['openings', filters.openings]
+              : ['rating', [IDBKeyRange.bound(filters.minRating, filters.maxRating)]]
+
+    const firstKey = Math.floor(Math.random() * keys.length)
+    for (let i = 0; i < keys.length; i++) {
+        const query = keys[(firstKey + i) % keys.length]
+        const count = await requestResult((await puzzleStore()).index(index).count(query))
+        if (count === 0) continue
+        const start = Math.floor(Math.random() * count)
+        const puzzle =
+            (await walkIndex(index, query, start, Infinity, filters)) ??
+            (await walkIndex(index, query, 0, start, filters))
+        if (puzzle) return puzzle
+    }
+    return null
+}
@@ -0,0 +1,64 @@
+import { ReactNode, createContext, useContext, useEffect, useState } from 'react'
+import { PuzzleSource, SourcePuzzle } from './puzzle-source'
+import { findPuzzleSource, loadLinkedPuzzle, puzzleSearchParams } from './registry'
+
+const PUZZLE_SOURCE_KEY = 'puzzleSource'
+
+type PuzzleSourceContextValue = {
+    source: PuzzleSource
+    // Registry value of the chosen source, null when the provider was given a fixed source
+    value: string | null
+    setValue: (value: string) => void
+    // Search params for the URL of a puzzle from the chosen source
+    puzzleParams: (id: string) => URLSearchParams
+    // Loads a puzzle from the source named in its URL, which becomes the chosen source
+    loadPuzzle: (id: string, sourceValue: string | null) => Promise<SourcePuzzle>
+}
+
+const fixedSourceValue = (source: PuzzleSource): PuzzleSourceContextValue => ({
+    source,
+    value: null,
+    setValue: () => {},
+    puzzleParams: id => new URLSearchParams({ puzzle: id }),
+    loadPuzzle: id => source.byId(id),
+})
+
+const PuzzleSourceContext = createContext<PuzzleSourceContextValue>(fixedSourceValue(findPuzzleSource(null).source))
+
+/*
+    Provides the puzzle source chosen by the player, remembered between visits. Passing a source
+    fixes it instead, e.g. a memory source to run a page without the network.
+*/
+export function PuzzleSourceProvider({ source, children }: { source?: PuzzleSource; children: ReactNode }) {
+    const [value, setValue] = useState(() => findPuzzleSource(localStorage.getItem(PUZZLE_SOURCE_KEY)).value)
+
+    useEffect(() => {
+        localStorage.setItem(PUZZLE_SOURCE_KEY, value)
+    }, [value])
+
+    const loadPuzzle = async (id: string, sourceValue: string | null) => {
+        const { option, puzzle } = await loadLinkedPuzzle(id, sourceValue)
+        setValue(option.value)
+        return puzzle
+    }
+
+    return (
+        <PuzzleSourceContext.Provider
+            value={
+                source
+                    ? fixedSourceValue(source)
+                    : {
+                          source: findPuzzleSource(value).source,
+                          value,
+                          setValue,
+                          puzzleParams: id => puzzleSearchParams(value, id),
+                          loadPuzzle,
+                      }
+            }
+        >
+            {children}
+        </PuzzleSourceContext.Provider>
+    )
+}
+
+export const usePuzzleSource = () => useContext(PuzzleSourceContext)
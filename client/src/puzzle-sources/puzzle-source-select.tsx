@@ -0,0 +1,39 @@
+import { ComponentType } from 'react'
+import { Group, SegmentedControl } from '@mantine/core'
+import { useNavigate, useLocation } from 'react-router-dom'
+import { plausibleEvent } from '../plausible'
+import { ImportedPuzzlesSettings } from './imported-puzzles-settings'
+import { usePuzzleSource } from './puzzle-source-context'
+import { PUZZLE_SOURCES, findPuzzleSource } from './registry'
+
+// Shown next to the source picker while their source is chosen, keyed by source value
+const SOURCE_SETTINGS: Record<string, ComponentType> = {
+    imported: ImportedPuzzlesSettings,
+}
+
+// Switching sources drops the current puzzle from the URL, so the page loads one from the new source
+export function PuzzleSourceSelect() {
+    const { value, setValue } = usePuzzleSource()
+    const navigate = useNavigate()
+    const location = useLocation()
+
+    if (value === null) return null
+    const Settings = SOURCE_SETTINGS[findPuzzleSource(value).value]
+
+    return (
+        <Group gap="xs" wrap="nowrap">
+            <SegmentedControl
+                value={value}
+                onChange={newValue => {
+                    setValue(newValue)
+                    navigate(location.pathname)
+                    plausibleEvent('puzzle-source:change', { props: { source: newValue } })
+                }}
+                data={PUZZLE_SOURCES.map(({ value, label }) => ({ value, label }))}
+                fullWidth
+                style={{ flex: 1 }}
+            />
+            {Settings && <Settings />}
+        </Group>
+    )
+}
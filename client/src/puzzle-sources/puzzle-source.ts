@@ -0,0 +1,39 @@
+import { Chess } from 'chess.js'
+
+/*
+    Where Checklist and Undefended get their positions from. The pages only ever see a position and
+    an id for the URL, so a new source can be added to the registry without touching them.
+*/
+
+export type SourcePuzzle = {
+    // Unique within its source, used in the ?puzzle= URL
+    id: string
+    fen: string
+    // Only for puzzles that come from Lichess
+    rating?: number
+}
+
+export interface PuzzleSource {
+    // A random position
+    next(): Promise<SourcePuzzle>
+    // Throws when the source has no puzzle with this id
+    byId(id: string): Promise<SourcePuzzle>
+}
+
+// Plays out a game in SAN, skipping move numbers, to get the position the puzzle starts from
+export function fenAfterPgn(pgn: string): string {
+    const chess = new Chess()
+    pgn.split(' ').forEach(move => {
+        if (move.match(/^\d+\./) || move === '') return
+        try {
+            chess.move(move)
+        } catch (e) {
+            console.error('Invalid move:', move)
+        }
+    })
+    return chess.fen()
+}
+
+export function randomItem<T>(items: T[]): T {
+    return items[Math.floor(Math.random() * items.length)]
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { createMemorySource } from './memory-source'
+import { PuzzleSourceOption, findPuzzleSource, loadLinkedPuzzle, puzzleSearchParams } from './registry'
+
+const sources: PuzzleSourceOption[] = [
+    {
+        value: 'first',
+        label: 'First',
+        source: createMemorySource([{ id: 'shared', fen: '4k3/8/8/8/8/8/8/4K2R w K - 0 1' }]),
+    },
+    {
+        value: 'second',
+        label: 'Second',
+        source: createMemorySource([
+            { id: 'only-second', fen: 'r3k3/8/8/8/8/8/8/4K3 b q - 0 1' },
+            { id: 'shared', fen: '4k3/8/8/8/8/8/8/R3K3 w Q - 0 1' },
+        ]),
+    },
+]
+
+describe('findPuzzleSource', () => {
+    it('falls back to the first source for unknown values', () => {
+        expect(findPuzzleSource('second', sources)).toBe(sources[1])
+        expect(findPuzzleSource('missing', sources)).toBe(sources[0])
+        expect(findPuzzleSource(null, sources)).toBe(sources[0])
+    })
+})
+
+describe('puzzle links', () => {
+    it('name the source of the puzzle', () => {
+        const searchParams = puzzleSearchParams('second', 'only-second')
+        expect(searchParams.get('source')).toBe('second')
+        expect(searchParams.get('puzzle')).toBe('only-second')
+    })
+
+    it('load from the source they name', async () => {
+        const searchParams = puzzleSearchParams('second', 'only-second')
+        const { option, puzzle } = await loadLinkedPuzzle(
+            searchParams.get('puzzle')!,
+            searchParams.get('source'),
+            sources,
+        )
+        expect(option).toBe(sources[1])
+        expect(puzzle.fen).toBe('r3k3/8/8/8/8/8/8/4K3 b q - 0 1')
+    })
+
+    it('keep puzzles with the same id in different sources apart', async () => {
+        const { puzzle } = await loadLinkedPuzzle('shared', 'second', sources)
+        expect(puzzle.fen).toBe('4k3/8/8/8/8/8/8/R3K3 w Q - 0 1')
+    })
+
+    it('without a source load from the default source', async () => {
+        const { option } = await loadLinkedPuzzle('shared', null, sources)
+        expect(option).toBe(sources[0])
+        await expect(loadLinkedPuzzle('only-second', null, sources)).rejects.toThrow('Puzzle not found')
+    })
+})
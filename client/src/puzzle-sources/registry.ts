@@ -0,0 +1,41 @@
+import { importedSource } from './imported-source'
+import { lichessSource } from './lichess-source'
+import { createLocalPackSource } from './local-pack-source'
+import { PuzzleSource, SourcePuzzle } from './puzzle-source'
+
+export type PuzzleSourceOption = {
+    value: string
+    label: string
+    source: PuzzleSource
+}
+
+// Sources players can choose between, the first one is the default
+export const PUZZLE_SOURCES: PuzzleSourceOption[] = [
+    { value: 'lichess', label: 'Lichess', source: lichessSource },
+    { value: 'offline', label: 'Offline', source: createLocalPackSource() },
+    { value: 'imported', label: 'Imported', source: importedSource },
+]
+
+export const findPuzzleSource = (
+    value: string | null,
+    sources: PuzzleSourceOption[] = PUZZLE_SOURCES,
+): PuzzleSourceOption => sources.find(option => option.value === value) ?? sources[0]
+
+// Puzzle URLs name their source, so a shared link loads from the source it was made with
+export function puzzleSearchParams(value: string, id: string): URLSearchParams {
+    const searchParams = new URLSearchParams()
+    searchParams.set('source', value)
+    searchParams.set('puzzle', id)
+    return searchParams
+}
+
+// Loads a linked puzzle from the source its URL names. Links from before sources were named
+// hold Lichess puzzles, which is the default source.
+export async function loadLinkedPuzzle(
+    id: string,
+    value: string | null,
+    sources: PuzzleSourceOption[] = PUZZLE_SOURCES,
+): Promise<{ option: PuzzleSourceOption; puzzle: SourcePuzzle }> {
+    const option = findPuzzleSource(value, sources)
+    return { option, puzzle: await option.source.byId(id) }
+}
@@ -23,6 +23,8 @@ import { useNavigate, useLocation } from 'react-router-dom'
 import { useMediaQuery, useDocumentTitle } from '@mantine/hooks'
 import classes from './undefended-chess.module.css'
 import { plausibleEvent } from '../plausible'
+import { usePuzzleSource } from '../puzzle-sources/puzzle-source-context'
+import { PuzzleSourceSelect } from '../puzzle-sources/puzzle-source-select'
 
 type GameState = {
     fen: string
@@ -46,24 +48,6 @@ const successSound = new Audio('/success.mp3')
 const failSound = new Audio('/fail.wav')
 const winSound = new Audio('/win.wav')
 
-const DIFFICULTIES = ['easier', 'normal', 'harder', 'hardest'] as const
-type Difficulty = (typeof DIFFICULTIES)[number]
-
-const getRandomDifficulty = (): Difficulty => {
-    const randomIndex = Math.floor(Math.random() * DIFFICULTIES.length)
-    return DIFFICULTIES[randomIndex]
-}
-
-const loadPuzzleById = async (puzzleId: string) => {
-    const response = await fetch(`https://lichess.org/api/puzzle/${puzzleId}`)
-    if (!response.ok) {
-        plausibleEvent('undefended:puzzle-load-failed')
-        throw new Error('Failed to load puzzle')
-    }
-    const data = await response.json()
-    return data
-}
-
 // Helper function to determine if a square is defended
 const isSquareDefended = (chess: Chess, square: Square, color: 'w' | 'b'): boolean => {
     const tempChess = new Chess(chess.fen())
@@ -137,6 +121,7 @@ export function UndefendedChess() {
     useDocumentTitle('Undefended | ChessPrac')
     const navigate = useNavigate()
     const location = useLocation()
+    const { source, puzzleParams, loadPuzzle: loadSourcePuzzle } = usePuzzleSource()
     const [gameState, setGameState] = useState<GameState>({
         fen: '',
         undefendedSquares: [],
@@ -194,22 +179,8 @@ export function UndefendedChess() {
             const maxAttempts = 10 // Prevent infinite loops
 
             while (!validPuzzleFound && attempts < maxAttempts) {
-                const difficulty = getRandomDifficulty()
-                const response = await fetch(`https://lichess.org/api/puzzle/next?difficulty=${difficulty}`)
-                const data = await response.json()
-
-                const chess = new Chess()
-                const moves = data.game.pgn.split(' ')
-                moves.forEach((move: string) => {
-                    if (move.match(/^\d+\./) || move === '') return
-                    try {
-                        chess.move(move)
-                    } catch (e) {
-                        console.error('Invalid move:', move)
-                    }
-                })
-
-                const fen = chess.fen()
+                const puzzle = await source.next()
+                const fen = puzzle.fen
 
                 // Skip this puzzle if either king is in check
                 if (isEitherKingInCheck(fen)) {
@@ -220,8 +191,7 @@ export function UndefendedChess() {
                 const undefendedSquares = findUndefendedSquares(fen)
 
                 if (!isInitial || !location.search) {
-                    const searchParams = new URLSearchParams()
-                    searchParams.set('puzzle', data.puzzle.id)
+                    const searchParams = puzzleParams(puzzle.id)
                     navigate(`?${searchParams.toString()}`, { replace: isInitial })
                 }
 
@@ -232,8 +202,8 @@ export function UndefendedChess() {
                     fen,
                     undefendedSquares,
                     foundSquares: [],
-                    puzzleId: data.puzzle.id,
-                    rating: data.puzzle.rating,
+                    puzzleId: puzzle.id,
+                    rating: puzzle.rating,
                     isLoaded: true,
                 })
 
@@ -271,19 +241,8 @@ export function UndefendedChess() {
                 setIsActive(false)
                 setSquareStyles({})
 
-                const data = await loadPuzzleById(id)
-                const chess = new Chess()
-                const moves = data.game.pgn.split(' ')
-                moves.forEach((move: string) => {
-                    if (move.match(/^\d+\./) || move === '') return
-                    try {
-                        chess.move(move)
-                    } catch (e) {
-                        console.error('Invalid move:', move)
-                    }
-                })
-
-                const fen = chess.fen()
+                const puzzle = await loadSourcePuzzle(id, params.get('source'))
+                const fen = puzzle.fen
 
                 // If either king is in check, generate a new puzzle instead
                 if (isEitherKingInCheck(fen)) {
@@ -297,12 +256,13 @@ export function UndefendedChess() {
                     fen,
                     undefendedSquares,
                     foundSquares: [],
-                    puzzleId: data.puzzle.id,
-                    rating: data.puzzle.rating,
+                    puzzleId: puzzle.id,
+                    rating: puzzle.rating,
                     isLoaded: true,
                 })
                 setIsActive(true)
             } catch (error) {
+                plausibleEvent('undefended:puzzle-load-failed')
                 notifications.show({
                     message: 'Failed to load puzzle. Please try again.',
                     color: 'red',
@@ -468,7 +428,9 @@ export function UndefendedChess() {
                             </Tooltip>
                         </Group>
                     </Grid.Col>
-                    <Grid.Col span={4} display={{ base: 'none', md: 'block' }} />
+                    <Grid.Col span={{ base: 12, md: 4 }}>
+                        <PuzzleSourceSelect />
+                    </Grid.Col>
                 </Grid>
 
                 <Grid justify="center">
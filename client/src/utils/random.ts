@@ -0,0 +1,17 @@
+export type RandomSource = () => number
+
+// Mulberry32: small, fast and good enough for puzzle generation
+export const createSeededRandom = (seed: number): RandomSource => {
+    let state = seed >>> 0
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+export const randomSeed = (): number => {
+    return Math.floor(Math.random() * 0x100000000)
+}